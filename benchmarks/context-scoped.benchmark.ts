@@ -0,0 +1,119 @@
+/**
+ * Compares context-scoped providers with Nest's Scope.REQUEST
+ *
+ * Both variants resolve the same three-level dependency chain once per simulated
+ * request and call a method on it. Run with `npm run benchmark`.
+ */
+import 'reflect-metadata';
+import { Injectable, Module, Scope } from '@nestjs/common';
+import { ContextIdFactory, ModuleRef, NestFactory } from '@nestjs/core';
+import { RequestContextModule, RequestContextService } from '../src';
+
+const ITERATIONS = Number(process.env.BENCHMARK_ITERATIONS ?? 50_000);
+const WARMUP = 2_000;
+
+// --- Scope.REQUEST ---------------------------------------------------------
+
+@Injectable({ scope: Scope.REQUEST })
+class RequestTenant {
+  readonly id = Math.random();
+}
+
+@Injectable({ scope: Scope.REQUEST })
+class RequestPermissions {
+  constructor(readonly tenant: RequestTenant) {}
+}
+
+@Injectable({ scope: Scope.REQUEST })
+class RequestOrders {
+  constructor(readonly permissions: RequestPermissions) {}
+
+  handle(): number {
+    return this.permissions.tenant.id;
+  }
+}
+
+@Module({ providers: [RequestTenant, RequestPermissions, RequestOrders] })
+class RequestScopedModule {}
+
+// --- Context-scoped --------------------------------------------------------
+
+@Injectable()
+class ContextTenant {
+  readonly id = Math.random();
+}
+
+@Injectable()
+class ContextPermissions {
+  constructor(readonly tenant: ContextTenant) {}
+}
+
+@Injectable()
+class ContextOrders {
+  constructor(readonly permissions: ContextPermissions) {}
+
+  handle(): number {
+    return this.permissions.tenant.id;
+  }
+}
+
+@Module({
+  imports: [
+    RequestContextModule.forRoot({
+      contextScoped: [ContextTenant, ContextPermissions, ContextOrders],
+    }),
+  ],
+})
+class ContextScopedModule {}
+
+// --- Runner ----------------------------------------------------------------
+
+async function measure(name: string, iteration: () => Promise<unknown>): Promise<number> {
+  for (let i = 0; i < WARMUP; i++) await iteration();
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < ITERATIONS; i++) await iteration();
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  const opsPerSecond = Math.round((ITERATIONS / elapsedMs) * 1000);
+  console.log(
+    `${name.padEnd(18)} ${opsPerSecond.toLocaleString().padStart(12)} req/s  ` +
+      `${((elapsedMs * 1000) / ITERATIONS).toFixed(2)} µs/req`,
+  );
+  return opsPerSecond;
+}
+
+async function main(): Promise<void> {
+  const requestApp = await NestFactory.createApplicationContext(RequestScopedModule, {
+    logger: false,
+  });
+  const contextApp = await NestFactory.createApplicationContext(ContextScopedModule, {
+    logger: false,
+  });
+
+  const moduleRef = requestApp.get(ModuleRef);
+  const contextService = contextApp.get(RequestContextService);
+  const orders = contextApp.get(ContextOrders);
+
+  console.log(`${ITERATIONS.toLocaleString()} requests, three-level dependency chain\n`);
+
+  const requestScoped = await measure('Scope.REQUEST', async () => {
+    const contextId = ContextIdFactory.create();
+    const instance = await moduleRef.resolve(RequestOrders, contextId, { strict: false });
+    return instance.handle();
+  });
+
+  const contextScoped = await measure('context-scoped', () =>
+    contextService.runAsync(async () => orders.handle()),
+  );
+
+  console.log(`\ncontext-scoped is ${(contextScoped / requestScoped).toFixed(1)}x faster`);
+
+  await requestApp.close();
+  await contextApp.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -52,10 +52,7 @@ function generateModuleConfig(options: CliOptions): string {
   opts.push(`setRequest: ${options.setRequest}`);
 
   if (options.addSetupRequestId) {
-    opts.push(`setup: (ctx, req) => {
-        const requestId = req.headers['x-request-id'] || \`req-\${Date.now()}\`;
-        ctx.set('requestId', requestId);
-      }`);
+    opts.push(`requestId: { header: 'x-request-id', generator: 'uuid' }`);
   }
 
   if (options.excludeRoutes.trim()) {
@@ -173,7 +170,7 @@ async function main(): Promise<void> {
     {
       type: 'confirm',
       name: 'addSetupRequestId',
-      message: 'Add a setup that stores x-request-id (or generated ID) in context?',
+      message: 'Store x-request-id (or a generated UUID) in context and echo it on responses?',
       default: true,
     },
     {
@@ -1,5 +1,5 @@
 import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
-import { RequestContextModule, RequestContextService } from '../../../src';
+import { RequestContextModule } from '../../../src';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { UserMiddleware } from './user.middleware';
@@ -11,12 +11,8 @@ import { AppRequestContext } from './app-context.service';
     // Adapter and middleware setup are auto-detected by default.
     RequestContextModule.forRoot({
       isGlobal: true,
-      // Optional: Custom setup function
-      setup: (ctx: RequestContextService, req: any) => {
-        // Set a request ID if provided in headers
-        const requestId = req.headers['x-request-id'] || `req-${Date.now()}`;
-        ctx.set('requestId', requestId);
-      },
+      // Reuse x-request-id or generate a UUID, echoed back on the response
+      requestId: true,
     }),
   ],
   controllers: [AppController],
@@ -1,6 +1,8 @@
 import { RequestAdapter, AdapterType } from './adapter.interface';
 import { ExpressAdapter, expressAdapter } from './express.adapter';
 import { FastifyAdapter, fastifyAdapter } from './fastify.adapter';
+import { RpcAdapter, rpcAdapter } from './rpc.adapter';
+import { SocketAdapter, socketAdapter } from './socket.adapter';
 
 /**
  * Detects the adapter type from a request object
@@ -33,6 +35,14 @@ export function getAdapter(type: AdapterType, request?: any): RequestAdapter {
     return fastifyAdapter;
   }
 
+  if (type === 'rpc') {
+    return rpcAdapter;
+  }
+
+  if (type === 'ws') {
+    return socketAdapter;
+  }
+
   return expressAdapter;
 }
 
@@ -45,7 +55,22 @@ export function createAdapter(type: Exclude<AdapterType, 'auto'>): RequestAdapte
   if (type === 'fastify') {
     return new FastifyAdapter();
   }
+  if (type === 'rpc') {
+    return new RpcAdapter();
+  }
+  if (type === 'ws') {
+    return new SocketAdapter();
+  }
   return new ExpressAdapter();
 }
 
-export { ExpressAdapter, FastifyAdapter, expressAdapter, fastifyAdapter };
+export {
+  ExpressAdapter,
+  FastifyAdapter,
+  RpcAdapter,
+  SocketAdapter,
+  expressAdapter,
+  fastifyAdapter,
+  rpcAdapter,
+  socketAdapter,
+};
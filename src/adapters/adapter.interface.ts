@@ -57,5 +57,7 @@ export interface RequestAdapter<TRequest = any> {
 
 /**
  * Type for adapter identification
+ * - 'rpc' is used for microservice message handlers
+ * - 'ws' is used for WebSocket gateway handlers
  */
-export type AdapterType = 'express' | 'fastify' | 'auto';
+export type AdapterType = 'express' | 'fastify' | 'rpc' | 'ws' | 'auto';
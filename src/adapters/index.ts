@@ -1,6 +1,20 @@
 export { RequestAdapter, AdapterType } from './adapter.interface';
 export { ExpressAdapter, expressAdapter } from './express.adapter';
 export { FastifyAdapter, fastifyAdapter } from './fastify.adapter';
+export {
+  RpcAdapter,
+  RpcRequest,
+  rpcAdapter,
+  createRpcRequest,
+  extractRpcMetadata,
+} from './rpc.adapter';
+export {
+  SocketAdapter,
+  SocketRequest,
+  socketAdapter,
+  createSocketRequest,
+  createSocketConnectionRequest,
+} from './socket.adapter';
 export {
   detectAdapterType,
   getAdapter,
@@ -0,0 +1,174 @@
+import type { ArgumentsHost } from '@nestjs/common';
+import { RequestAdapter } from './adapter.interface';
+
+/**
+ * Normalized representation of an incoming microservice message
+ * Stored in the context in place of an HTTP request for RPC handlers
+ */
+export interface RpcRequest<TData = any, TContext = any> {
+  /** The message pattern, subject, channel or topic (when the transport exposes it) */
+  pattern?: string;
+  /** The message payload */
+  data: TData;
+  /** The transport-specific context (TcpContext, NatsContext, RedisContext, ...) */
+  context: TContext;
+  /** Transport metadata (NATS/Kafka/RMQ headers, gRPC metadata), keys lower-cased */
+  metadata: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Converts a single metadata value to a string
+ */
+function normalizeMetadataValue(value: any): string | string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item));
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('utf8');
+  }
+  return String(value);
+}
+
+/**
+ * Extracts the pattern from a transport context
+ * Tries the accessors exposed by the built-in Nest transport contexts
+ */
+function extractPattern(context: any): string | undefined {
+  if (!context || typeof context !== 'object') return undefined;
+
+  for (const accessor of ['getPattern', 'getSubject', 'getChannel', 'getTopic']) {
+    if (typeof context[accessor] === 'function') {
+      const pattern = context[accessor]();
+      if (pattern !== undefined && pattern !== null) {
+        return typeof pattern === 'string' ? pattern : JSON.stringify(pattern);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts header-like metadata from a transport context
+ * Supports NATS headers, Kafka message headers, RMQ message headers and gRPC metadata
+ */
+export function extractRpcMetadata(
+  context: any,
+): Record<string, string | string[] | undefined> {
+  const metadata: Record<string, string | string[] | undefined> = {};
+  if (!context || typeof context !== 'object') return metadata;
+
+  const assign = (key: string, value: any) => {
+    metadata[key.toLowerCase()] = normalizeMetadataValue(value);
+  };
+
+  // gRPC: Metadata instance
+  if (typeof context.getMap === 'function') {
+    Object.entries(context.getMap() as Record<string, any>).forEach(([key, value]) =>
+      assign(key, value),
+    );
+    return metadata;
+  }
+
+  // NATS: MsgHdrs with keys()/get()
+  if (typeof context.getHeaders === 'function') {
+    const headers = context.getHeaders();
+    if (headers && typeof headers.keys === 'function' && typeof headers.get === 'function') {
+      for (const key of headers.keys()) {
+        assign(key, headers.get(key));
+      }
+    } else if (headers && typeof headers === 'object') {
+      Object.entries(headers).forEach(([key, value]) => assign(key, value));
+    }
+    return metadata;
+  }
+
+  // Kafka and RMQ: headers live on the raw message
+  if (typeof context.getMessage === 'function') {
+    const message = context.getMessage();
+    const headers = message?.headers ?? message?.properties?.headers;
+    if (headers && typeof headers === 'object') {
+      Object.entries(headers).forEach(([key, value]) => assign(key, value));
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Builds an RpcRequest from a Nest arguments host of type 'rpc'
+ *
+ * @param host - The execution context or arguments host
+ * @returns The normalized RpcRequest
+ */
+export function createRpcRequest(host: ArgumentsHost): RpcRequest {
+  const rpc = host.switchToRpc();
+  const data = rpc.getData();
+  const context = rpc.getContext();
+
+  return {
+    pattern: extractPattern(context),
+    data,
+    context,
+    metadata: extractRpcMetadata(context),
+  };
+}
+
+/**
+ * Microservice request adapter
+ * Exposes the message payload and transport context of @MessagePattern/@EventPattern handlers
+ */
+export class RpcAdapter implements RequestAdapter<RpcRequest> {
+  getHeaders(request: RpcRequest): Record<string, string | string[] | undefined> {
+    return request.metadata;
+  }
+
+  getHeader(request: RpcRequest, key: string): string | string[] | undefined {
+    return request.metadata[key.toLowerCase()];
+  }
+
+  getPath(request: RpcRequest): string {
+    return request.pattern ?? '';
+  }
+
+  getMethod(_request: RpcRequest): string {
+    return 'RPC';
+  }
+
+  getBody(request: RpcRequest): any {
+    return request.data;
+  }
+
+  getQuery(_request: RpcRequest): Record<string, any> {
+    return {};
+  }
+
+  getParams(_request: RpcRequest): Record<string, string> {
+    return {};
+  }
+
+  getProperty<T = any>(request: RpcRequest, key: string): T | undefined {
+    return (request as any)[key] as T | undefined;
+  }
+
+  setProperty<T = any>(request: RpcRequest, key: string, value: T): void {
+    (request as any)[key] = value;
+  }
+
+  getRawRequest(request: RpcRequest): RpcRequest {
+    return request;
+  }
+
+  /**
+   * Gets the transport-specific context (e.g. NatsContext)
+   */
+  getTransportContext<T = any>(request: RpcRequest): T {
+    return request.context as T;
+  }
+}
+
+/**
+ * Singleton instance of RpcAdapter
+ */
+export const rpcAdapter = new RpcAdapter();
@@ -0,0 +1,141 @@
+import type { ArgumentsHost } from '@nestjs/common';
+import { RequestAdapter } from './adapter.interface';
+
+/**
+ * Normalized representation of a WebSocket connection or message
+ * Stored in the context in place of an HTTP request for gateway handlers
+ */
+export interface SocketRequest<TClient = any, TData = any> {
+  /** The connected client (socket.io Socket or ws WebSocket) */
+  client: TClient;
+  /** Handshake headers, keys lower-cased */
+  headers: Record<string, string | string[] | undefined>;
+  /** Handshake query parameters */
+  query: Record<string, any>;
+  /** The handshake URL, when available */
+  url?: string;
+  /** The @SubscribeMessage pattern (message-level only) */
+  pattern?: string;
+  /** The message payload (message-level only) */
+  data?: TData;
+}
+
+/**
+ * Resolves the handshake of a client
+ * Supports socket.io (client.handshake) and ws clients with an attached upgrade request
+ */
+function getHandshake(client: any): {
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+  url?: string;
+} {
+  const handshake = client?.handshake;
+  if (handshake) {
+    return {
+      headers: handshake.headers ?? {},
+      query: handshake.query ?? {},
+      url: handshake.url,
+    };
+  }
+
+  // ws: the upgrade request is commonly attached by the gateway or adapter
+  const upgradeRequest = client?.upgradeReq ?? client?.request;
+  if (upgradeRequest) {
+    const url: string | undefined = upgradeRequest.url;
+    const query: Record<string, any> = {};
+    if (url) {
+      new URLSearchParams(url.split('?')[1] ?? '').forEach((value, key) => {
+        query[key] = value;
+      });
+    }
+
+    return { headers: upgradeRequest.headers ?? {}, query, url };
+  }
+
+  return { headers: {}, query: {} };
+}
+
+/**
+ * Builds a connection-level SocketRequest from a client
+ *
+ * @param client - The connected socket client
+ * @returns The normalized SocketRequest
+ */
+export function createSocketConnectionRequest(client: any): SocketRequest {
+  return { client, ...getHandshake(client) };
+}
+
+/**
+ * Builds a message-level SocketRequest from a Nest arguments host of type 'ws'
+ *
+ * @param host - The execution context or arguments host
+ * @returns The normalized SocketRequest
+ */
+export function createSocketRequest(host: ArgumentsHost): SocketRequest {
+  const ws = host.switchToWs();
+  const client = ws.getClient();
+
+  return {
+    ...createSocketConnectionRequest(client),
+    pattern: typeof ws.getPattern === 'function' ? ws.getPattern() : undefined,
+    data: ws.getData(),
+  };
+}
+
+/**
+ * WebSocket request adapter
+ * Exposes handshake headers/query and message payloads of @nestjs/websockets gateways
+ */
+export class SocketAdapter implements RequestAdapter<SocketRequest> {
+  getHeaders(request: SocketRequest): Record<string, string | string[] | undefined> {
+    return request.headers;
+  }
+
+  getHeader(request: SocketRequest, key: string): string | string[] | undefined {
+    return request.headers[key.toLowerCase()];
+  }
+
+  getPath(request: SocketRequest): string {
+    return request.pattern ?? request.url ?? '';
+  }
+
+  getMethod(_request: SocketRequest): string {
+    return 'WS';
+  }
+
+  getBody(request: SocketRequest): any {
+    return request.data;
+  }
+
+  getQuery(request: SocketRequest): Record<string, any> {
+    return request.query;
+  }
+
+  getParams(_request: SocketRequest): Record<string, string> {
+    return {};
+  }
+
+  getProperty<T = any>(request: SocketRequest, key: string): T | undefined {
+    return (request as any)[key] as T | undefined;
+  }
+
+  setProperty<T = any>(request: SocketRequest, key: string, value: T): void {
+    (request as any)[key] = value;
+  }
+
+  getRawRequest(request: SocketRequest): SocketRequest {
+    return request;
+  }
+
+  /**
+   * Gets the connected client
+   */
+  getClient<T = any>(request: SocketRequest): T {
+    return request.client as T;
+  }
+}
+
+/**
+ * Singleton instance of SocketAdapter
+ */
+export const socketAdapter = new SocketAdapter();
@@ -0,0 +1,117 @@
+import 'reflect-metadata';
+import { EventEmitter } from 'events';
+import { Logger } from '@nestjs/common';
+import { RequestContextService } from '../request-context.service';
+
+/**
+ * Stands in for a Node.js ServerResponse
+ */
+class FakeResponse extends EventEmitter {
+  writableFinished = false;
+  destroyed = false;
+
+  finish(): void {
+    this.writableFinished = true;
+    this.emit('finish');
+  }
+}
+
+describe('afterResponse', () => {
+  let ctx: RequestContextService;
+  let errors: jest.SpyInstance;
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    ctx = new RequestContextService({ afterResponse: { timeout: 20, drainTimeout: 50 } });
+    errors = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    errors.mockRestore();
+  });
+
+  it('runs the tasks in the request context once the response is flushed', async () => {
+    const response = new FakeResponse();
+    const ran: string[] = [];
+
+    ctx.run(
+      () => {
+        ctx.setResponse(response);
+        ctx.afterResponse(() => void ran.push(ctx.get('tenantId')));
+      },
+      { tenantId: 'acme' },
+    );
+    await settle();
+    expect(ran).toEqual([]);
+
+    response.finish();
+    await settle();
+
+    expect(ran).toEqual(['acme']);
+  });
+
+  it('runs the tasks of a context without a response when run() settles', async () => {
+    const ran: string[] = [];
+
+    await ctx.runAsync(async () => {
+      ctx.afterResponse(() => void ran.push('task'));
+      await settle();
+      expect(ran).toEqual([]);
+    });
+    await settle();
+
+    expect(ran).toEqual(['task']);
+  });
+
+  it('runs tasks queued after the flush right away', async () => {
+    const ran: string[] = [];
+
+    await ctx.runAsync(async () => {
+      await ctx.flushAfterResponse();
+      ctx.afterResponse(() => void ran.push('late'));
+      await settle();
+      expect(ran).toEqual(['late']);
+    });
+  });
+
+  it('logs failing and slow tasks without affecting the others', async () => {
+    const ran: string[] = [];
+
+    await ctx.runAsync(async () => {
+      ctx.afterResponse(
+        () => {
+          throw new Error('boom');
+        },
+        { name: 'audit' },
+      );
+      ctx.afterResponse(() => new Promise(() => undefined), { name: 'stuck' });
+      ctx.afterResponse(() => void ran.push('ok'));
+      await ctx.flushAfterResponse();
+    });
+
+    expect(ran).toEqual(['ok']);
+    expect(errors.mock.calls.map(([message]) => message)).toEqual([
+      'After-response task "audit" failed: boom',
+      'After-response task "stuck" failed: timed out after 20ms',
+    ]);
+  });
+
+  it('waits for running tasks on shutdown', async () => {
+    let done = false;
+
+    await ctx.runAsync(async () => {
+      ctx.afterResponse(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        done = true;
+      });
+    });
+    await ctx.onApplicationShutdown();
+
+    expect(done).toBe(true);
+  });
+
+  it('throws outside a context', () => {
+    expect(() => ctx.afterResponse(() => undefined)).toThrow('No active request context');
+  });
+});
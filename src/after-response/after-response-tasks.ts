@@ -0,0 +1,205 @@
+import { Logger } from '@nestjs/common';
+import type {
+  AfterResponseOptions,
+  AfterResponseTask,
+  AfterResponseTaskOptions,
+} from '../interfaces';
+import type { RequestContextService } from '../request-context.service';
+import { getRootStore } from '../store';
+import { onResponseEnd } from '../utils/response.util';
+
+/**
+ * Store key holding the tasks queued in a context
+ */
+export const AFTER_RESPONSE_KEY = '__after_response__';
+
+const DEFAULT_TASK_TIMEOUT = 30_000;
+const DEFAULT_DRAIN_TIMEOUT = 10_000;
+
+interface QueuedTask {
+  run: AfterResponseTask;
+  name?: string;
+  timeout: number;
+}
+
+/**
+ * Tasks of one context, kept on the root store: child contexts share the queue of their request
+ */
+interface TaskQueue {
+  tasks: QueuedTask[];
+  flushed: boolean;
+  /** Set when the opener of the context flushes the tasks itself */
+  held?: boolean;
+}
+
+/**
+ * Keeps the tasks of the current context queued until `flushAfterResponse()`,
+ * even once the callback given to `run()` has settled
+ * Call right after opening a context that ends later than its `run()` callback
+ *
+ * @param contextService - The context service (must be inside the context)
+ */
+export function holdAfterResponseTasks(contextService: RequestContextService): void {
+  const queue: TaskQueue = { tasks: [], flushed: false, held: true };
+  contextService.set(AFTER_RESPONSE_KEY as any, queue);
+}
+
+/**
+ * Runs the tasks queued with `afterResponse()` once the response is done
+ * Tasks run concurrently; a failing or slow task is logged and never affects the others
+ */
+export class AfterResponseTasks {
+  private readonly logger = new Logger('RequestContext');
+  private readonly timeout: number;
+  private readonly drainTimeout: number;
+  private readonly running = new Set<Promise<void>>();
+
+  constructor(options: AfterResponseOptions = {}) {
+    this.timeout = options.timeout ?? DEFAULT_TASK_TIMEOUT;
+    this.drainTimeout = options.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT;
+  }
+
+  /**
+   * Queues a task in a context
+   * The first task starts watching the response; without one, tasks wait for `flush()`
+   * or for the `run()` callback that opened the context to settle.
+   * Tasks queued after the flush run right away.
+   */
+  add(
+    store: Map<string, any>,
+    run: AfterResponseTask,
+    options: AfterResponseTaskOptions = {},
+    response?: unknown,
+  ): void {
+    const task: QueuedTask = { run, name: options.name, timeout: options.timeout ?? this.timeout };
+    store = getRootStore(store);
+    let queue: TaskQueue | undefined = store.get(AFTER_RESPONSE_KEY);
+
+    if (queue?.flushed) {
+      void this.execute([task]);
+      return;
+    }
+
+    if (!queue) {
+      const created: TaskQueue = { tasks: [], flushed: false };
+      store.set(AFTER_RESPONSE_KEY, created);
+      onResponseEnd(response, () => void this.flushQueue(created));
+      queue = created;
+    }
+
+    queue.tasks.push(task);
+  }
+
+  /**
+   * Runs the tasks queued in a context now
+   *
+   * @returns Resolves when every task has settled or timed out
+   */
+  flush(store: Map<string, any>): Promise<void> {
+    store = getRootStore(store);
+    const queue: TaskQueue | undefined = store.get(AFTER_RESPONSE_KEY);
+    if (!queue) {
+      // Tasks queued from now on run right away
+      store.set(AFTER_RESPONSE_KEY, { tasks: [], flushed: true });
+      return Promise.resolve();
+    }
+    return this.flushQueue(queue);
+  }
+
+  /**
+   * Called when the callback given to `run()` or `runAsync()` has settled
+   * Runs the queued tasks, unless a response or the context's opener ends the context
+   *
+   * @param hasResponse - Whether the context has a response
+   */
+  settle(store: Map<string, any>, hasResponse: boolean): void {
+    if (hasResponse) return;
+
+    const queue: TaskQueue | undefined = store.get(AFTER_RESPONSE_KEY);
+    if (queue?.held) return;
+    void this.flush(store);
+  }
+
+  /**
+   * Number of task batches still running
+   */
+  get pending(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Waits for running tasks, at most `drainTimeout` milliseconds
+   *
+   * @returns true if every task settled in time
+   */
+  async drain(): Promise<boolean> {
+    if (this.running.size === 0) return true;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), this.drainTimeout);
+    });
+
+    const drained = await Promise.race([
+      Promise.all(this.running).then(() => true as const),
+      timedOut,
+    ]);
+    clearTimeout(timer);
+
+    if (!drained) {
+      this.logger.warn(
+        `${this.running.size} after-response task batch(es) still running after ${this.drainTimeout}ms`,
+      );
+    }
+    return drained;
+  }
+
+  private flushQueue(queue: TaskQueue): Promise<void> {
+    if (queue.flushed) return Promise.resolve();
+    queue.flushed = true;
+    return this.execute(queue.tasks.splice(0));
+  }
+
+  private execute(tasks: QueuedTask[]): Promise<void> {
+    if (tasks.length === 0) return Promise.resolve();
+
+    const batch = Promise.all(tasks.map((task) => this.runTask(task))).then(() => undefined);
+    this.running.add(batch);
+    void batch.then(() => this.running.delete(batch));
+    return batch;
+  }
+
+  /**
+   * Runs one task, logging instead of throwing when it fails or times out
+   */
+  private async runTask(task: QueuedTask): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const label = task.name ? `After-response task "${task.name}"` : 'After-response task';
+
+    try {
+      const result = Promise.resolve().then(task.run);
+
+      if (!Number.isFinite(task.timeout)) {
+        await result;
+        return;
+      }
+
+      await Promise.race([
+        result,
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`timed out after ${task.timeout}ms`)),
+            task.timeout,
+          );
+        }),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `${label} failed: ${(error as Error)?.message ?? error}`,
+        (error as Error)?.stack,
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export {
+  AFTER_RESPONSE_KEY,
+  AfterResponseTasks,
+  holdAfterResponseTasks,
+} from './after-response-tasks';
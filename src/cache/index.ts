@@ -0,0 +1,3 @@
+export { REQUEST_CACHE_KEY, RequestCache } from './request-cache';
+export { Memoize, MemoizeOptions } from './memoize.decorator';
+export { DataLoaderLike, requestScoped, createDataLoader } from './request-scoped';
@@ -0,0 +1,54 @@
+import { RequestContextService } from '../request-context.service';
+import { copyMetadata } from '../utils';
+
+/**
+ * Options for @Memoize()
+ */
+export interface MemoizeOptions {
+  /**
+   * Builds the cache key from the call arguments
+   * @default JSON.stringify of the arguments
+   */
+  key?: (...args: any[]) => string;
+}
+
+/**
+ * Method decorator that caches results for the rest of the request
+ * Calls with the same arguments in the same request return the cached result
+ * (including the same promise for async methods); failed promises are not cached.
+ * Outside a context the method runs uncached.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class UsersService {
+ *   @Memoize()
+ *   findById(id: string): Promise<User> {
+ *     return this.repository.findOneBy({ id });
+ *   }
+ * }
+ * ```
+ */
+export function Memoize(options: MemoizeOptions = {}): MethodDecorator {
+  return (target, propertyKey, descriptor: PropertyDescriptor) => {
+    const original = descriptor.value;
+    const prefix = `${target.constructor.name}.${String(propertyKey)}`;
+
+    descriptor.value = function (this: any, ...args: any[]) {
+      if (!RequestContextService.hasInstance()) {
+        return original.apply(this, args);
+      }
+
+      const contextService = RequestContextService.getInstance();
+      if (!contextService.isActive()) {
+        return original.apply(this, args);
+      }
+
+      const argsKey = options.key ? options.key(...args) : JSON.stringify(args);
+      return contextService.memo(`${prefix}:${argsKey}`, () => original.apply(this, args));
+    };
+
+    copyMetadata(original, descriptor.value);
+    return descriptor;
+  };
+}
@@ -0,0 +1,136 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { Memoize } from './memoize.decorator';
+import { createDataLoader, requestScoped } from './request-scoped';
+
+// Stands in for the optional dataloader package: records the batches it loads
+jest.mock('../utils/load-package.util', () => ({
+  loadOptionalPackage: () =>
+    class {
+      constructor(private readonly batch: (keys: readonly unknown[]) => Promise<unknown[]>) {}
+
+      load(key: unknown) {
+        return this.batch([key]).then(([value]) => value);
+      }
+    },
+}));
+
+describe('request cache', () => {
+  let ctx: RequestContextService;
+  let calls: number;
+
+  class UsersService {
+    @Memoize()
+    async findById(id: number) {
+      calls++;
+      return { id, tenantId: ctx.get('tenantId') };
+    }
+
+    @Memoize({ key: (user: { id: number }) => String(user.id) })
+    describe(user: { id: number; name: string }) {
+      calls++;
+      return `${user.id}:${user.name}`;
+    }
+
+    @Memoize()
+    async failOnce() {
+      calls++;
+      if (calls === 1) throw new Error('flaky');
+      return 'ok';
+    }
+  }
+
+  const users = new UsersService();
+
+  beforeEach(() => {
+    calls = 0;
+    ctx = new RequestContextService();
+    ctx.onModuleInit();
+  });
+
+  it('caches values for the rest of the request', () => {
+    ctx.run(() => {
+      ctx.cache.set('user:1', { id: 1 });
+
+      expect(ctx.cache.get('user:1')).toEqual({ id: 1 });
+      expect(ctx.cache.size).toBe(1);
+    });
+
+    expect(ctx.run(() => ctx.cache.has('user:1'))).toBe(false);
+  });
+
+  it('shares the cache with child contexts', () => {
+    ctx.run(() => {
+      const child = ctx.fork();
+      child.run(() => ctx.cache.set('user:1', { id: 1 }));
+
+      expect(ctx.cache.get('user:1')).toEqual({ id: 1 });
+    });
+  });
+
+  it('ignores the cache outside a context', () => {
+    ctx.cache.set('user:1', { id: 1 });
+
+    expect(ctx.cache.get('user:1')).toBeUndefined();
+    expect(ctx.memo('user:1', () => ++calls)).toBe(1);
+    expect(ctx.memo('user:1', () => ++calls)).toBe(2);
+  });
+
+  describe('@Memoize', () => {
+    it('returns the same promise for the same arguments within a request', async () => {
+      const [first, second, other] = await ctx.runAsync(
+        () => Promise.all([users.findById(1), users.findById(1), users.findById(2)]),
+        { tenantId: 'acme' },
+      );
+
+      expect(first).toBe(second);
+      expect(other).toEqual({ id: 2, tenantId: 'acme' });
+      expect(calls).toBe(2);
+    });
+
+    it('caches per request', async () => {
+      await ctx.runAsync(() => users.findById(1));
+      await ctx.runAsync(() => users.findById(1));
+
+      expect(calls).toBe(2);
+    });
+
+    it('builds the cache key with the key option', () => {
+      const results = ctx.run(() => [
+        users.describe({ id: 1, name: 'Ada' }),
+        users.describe({ id: 1, name: 'renamed' }),
+      ]);
+
+      expect(results).toEqual(['1:Ada', '1:Ada']);
+    });
+
+    it('does not cache rejected promises', async () => {
+      const result = await ctx.runAsync(async () => {
+        await expect(users.failOnce()).rejects.toThrow('flaky');
+        return users.failOnce();
+      });
+
+      expect(result).toBe('ok');
+    });
+  });
+
+  it('builds request-scoped values once per request', () => {
+    const current = requestScoped(() => ({ created: ++calls }), ctx);
+
+    const [first, second] = ctx.run(() => [current(), current()]);
+
+    expect(first).toBe(second);
+    expect(ctx.run(() => current())).toEqual({ created: 2 });
+  });
+
+  it('gives every request its own DataLoader', async () => {
+    const loader = createDataLoader<number, string>(async (ids) => ids.map((id) => `user-${id}`));
+
+    const [first, second] = ctx.run(() => [loader(), loader()]);
+    const other = ctx.run(() => loader());
+
+    expect(first).toBe(second);
+    expect(other).not.toBe(first);
+    await expect(ctx.run(() => loader().load(7))).resolves.toBe('user-7');
+  });
+});
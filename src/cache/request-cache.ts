@@ -0,0 +1,81 @@
+import { getRootStore } from '../store';
+
+/**
+ * Store key holding the request cache
+ */
+export const REQUEST_CACHE_KEY = '__cache__';
+
+/**
+ * Cache that lives and dies with the current context
+ * Child contexts share the cache of their request. Outside a context,
+ * reads miss and writes are ignored.
+ *
+ * @example
+ * ```typescript
+ * this.ctx.cache.set(`user:${id}`, user);
+ * const cached = this.ctx.cache.get<User>(`user:${id}`);
+ * ```
+ */
+export class RequestCache {
+  constructor(private readonly getStore: () => Map<string, any> | undefined) {}
+
+  /**
+   * Gets a cached value
+   */
+  get<T = any>(key: unknown): T | undefined {
+    return this.getEntries()?.get(key);
+  }
+
+  /**
+   * Caches a value for the rest of the request
+   */
+  set<T>(key: unknown, value: T): void {
+    this.getEntries(true)?.set(key, value);
+  }
+
+  /**
+   * Checks if a value is cached
+   */
+  has(key: unknown): boolean {
+    return this.getEntries()?.has(key) ?? false;
+  }
+
+  /**
+   * Removes a cached value
+   */
+  delete(key: unknown): boolean {
+    return this.getEntries()?.delete(key) ?? false;
+  }
+
+  /**
+   * Removes every cached value of the request
+   */
+  clear(): void {
+    this.getEntries()?.clear();
+  }
+
+  /**
+   * Number of cached values
+   */
+  get size(): number {
+    return this.getEntries()?.size ?? 0;
+  }
+
+  /**
+   * Gets the entries kept on the root store, so that children forked before
+   * the first write share them too
+   */
+  private getEntries(create = false): Map<unknown, any> | undefined {
+    const current = this.getStore();
+    if (!current) return undefined;
+
+    const store = getRootStore(current);
+
+    let entries: Map<unknown, any> | undefined = store.get(REQUEST_CACHE_KEY);
+    if (!entries && create) {
+      entries = new Map();
+      store.set(REQUEST_CACHE_KEY, entries);
+    }
+    return entries;
+  }
+}
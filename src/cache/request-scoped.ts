@@ -0,0 +1,67 @@
+import { loadOptionalPackage } from '../utils/load-package.util';
+import { RequestContextService } from '../request-context.service';
+
+/**
+ * Creates an accessor that builds a value once per request
+ * A lightweight alternative to request-scoped providers, which re-create
+ * their whole dependency chain on every request
+ *
+ * @param factory - Builds the value
+ * @param contextService - Optional service instance; the global instance is used otherwise
+ * @returns A function returning the instance of the current request
+ * (a new instance on every call outside a context)
+ */
+export function requestScoped<T>(
+  factory: () => T,
+  contextService?: RequestContextService,
+): () => T {
+  const token = Symbol('RequestScoped');
+
+  return () => {
+    const service = contextService ?? RequestContextService.getInstance();
+    return service.isActive() ? service.memo(token, factory) : factory();
+  };
+}
+
+/**
+ * Creates an accessor for a DataLoader that is built once per request
+ * Batching and caching then apply across every service in the request
+ * Requires `dataloader`
+ *
+ * @param batchLoadFn - Loads many keys at once
+ * @param options - DataLoader options
+ * @returns A function returning the DataLoader of the current request
+ *
+ * @example
+ * ```typescript
+ * const userLoader = createDataLoader<string, User>((ids) => this.repository.findByIds(ids));
+ *
+ * const user = await userLoader().load(id);
+ * ```
+ */
+export function createDataLoader<K, V>(
+  batchLoadFn: (keys: readonly K[]) => PromiseLike<ArrayLike<V | Error>>,
+  options?: Record<string, any>,
+): () => DataLoaderLike<K, V> {
+  let DataLoader: new (batch: typeof batchLoadFn, options?: Record<string, any>) => DataLoaderLike<K, V>;
+
+  return requestScoped(() => {
+    if (!DataLoader) {
+      const dataloader = loadOptionalPackage('dataloader', 'createDataLoader');
+      DataLoader = dataloader.default ?? dataloader;
+    }
+    return new DataLoader(batchLoadFn, options);
+  });
+}
+
+/**
+ * Minimal shape of a DataLoader instance
+ * Keeps dataloader an optional dependency
+ */
+export interface DataLoaderLike<K, V> {
+  load(key: K): Promise<V>;
+  loadMany(keys: ArrayLike<K>): Promise<Array<V | Error>>;
+  clear(key: K): this;
+  clearAll(): this;
+  prime(key: K, value: V | Error): this;
+}
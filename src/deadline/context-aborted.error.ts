@@ -0,0 +1,18 @@
+/**
+ * Reason the signal of a context was aborted with
+ */
+export class ContextAbortedError extends Error {
+  constructor(
+    /** Why the context was aborted */
+    readonly reason: 'deadline' | 'disconnect',
+    /** The time budget of the request in milliseconds (deadline only) */
+    readonly timeout?: number,
+  ) {
+    super(
+      reason === 'deadline'
+        ? `Request deadline of ${timeout}ms exceeded.`
+        : 'Client disconnected before the response was sent.',
+    );
+    this.name = 'ContextAbortedError';
+  }
+}
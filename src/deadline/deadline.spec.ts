@@ -0,0 +1,118 @@
+import 'reflect-metadata';
+import { EventEmitter } from 'events';
+import { RequestContextService } from '../request-context.service';
+import { expressAdapter } from '../adapters';
+import { ContextAbortedError } from './context-aborted.error';
+import {
+  applyDeadline,
+  endDeadline,
+  parseGrpcTimeout,
+  parseTimeoutHeader,
+  resolveRequestTimeout,
+} from './deadline';
+
+describe('deadlines', () => {
+  describe('parseGrpcTimeout', () => {
+    it.each([
+      ['2H', 7_200_000],
+      ['1M', 60_000],
+      ['3S', 3_000],
+      ['500m', 500],
+      ['1500u', 1.5],
+      ['2000000n', 2],
+    ])('parses %s', (value, expected) => {
+      expect(parseGrpcTimeout(value)).toBe(expected);
+    });
+
+    it.each(['0m', '0S', '', '5', '5s', '-1m', '1.5S', '123456789m', '999999H'])(
+      'rejects %j',
+      (value) => {
+        expect(parseGrpcTimeout(value)).toBeUndefined();
+      },
+    );
+  });
+
+  describe('parseTimeoutHeader', () => {
+    it('parses positive integers', () => {
+      expect(parseTimeoutHeader(' 250 ')).toBe(250);
+    });
+
+    it.each(['0', '-5', '1e3', '2.5', 'soon', '2147483648'])('rejects %j', (value) => {
+      expect(parseTimeoutHeader(value)).toBeUndefined();
+    });
+  });
+
+  describe('resolveRequestTimeout', () => {
+    const resolve = (headers: Record<string, string>, timeout?: number) =>
+      resolveRequestTimeout(expressAdapter, { headers }, { timeout });
+
+    it('picks the shortest budget', () => {
+      expect(resolve({ 'x-request-timeout': '800', 'grpc-timeout': '1S' }, 5_000)).toBe(800);
+      expect(resolve({ 'grpc-timeout': '300m' }, 5_000)).toBe(300);
+    });
+
+    it('ignores invalid client budgets', () => {
+      expect(resolve({ 'x-request-timeout': '0', 'grpc-timeout': '0m' }, 5_000)).toBe(5_000);
+      expect(resolve({ 'grpc-timeout': '0m' })).toBeUndefined();
+    });
+  });
+
+  describe('signal and remainingTime', () => {
+    let ctx: RequestContextService;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 0 });
+      ctx = new RequestContextService();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const open = (headers: Record<string, string>, response?: EventEmitter) =>
+      applyDeadline(ctx, expressAdapter, { headers }, response, {});
+
+    it('counts down and aborts the signal when the deadline passes', () => {
+      ctx.run(() => {
+        open({ 'grpc-timeout': '1S' });
+
+        jest.advanceTimersByTime(400);
+        expect(ctx.remainingTime()).toBe(600);
+        expect(ctx.signal?.aborted).toBe(false);
+
+        jest.advanceTimersByTime(600);
+        expect(ctx.remainingTime()).toBe(0);
+        expect(ctx.signal?.reason).toEqual(new ContextAbortedError('deadline', 1_000));
+      });
+    });
+
+    it('aborts when the client disconnects', () => {
+      const response = Object.assign(new EventEmitter(), { writableFinished: false });
+
+      ctx.run(() => {
+        open({}, response);
+        response.emit('close');
+
+        expect(ctx.remainingTime()).toBe(Infinity);
+        expect((ctx.signal?.reason as ContextAbortedError).reason).toBe('disconnect');
+      });
+    });
+
+    it('stops the timer when the handler ends', () => {
+      ctx.run(() => {
+        open({ 'x-request-timeout': '100' });
+        endDeadline(ctx);
+
+        jest.advanceTimersByTime(200);
+        expect(ctx.signal?.aborted).toBe(false);
+      });
+    });
+
+    it('has no signal outside a deadline', () => {
+      ctx.run(() => {
+        expect(ctx.signal).toBeUndefined();
+        expect(ctx.remainingTime()).toBe(Infinity);
+      });
+    });
+  });
+});
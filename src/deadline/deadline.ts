@@ -0,0 +1,170 @@
+import { RequestContextService } from '../request-context.service';
+import { RequestAdapter } from '../adapters';
+import { DeadlineOptions } from '../interfaces';
+import { onResponseEnd } from '../utils/response.util';
+import { ContextAbortedError } from './context-aborted.error';
+
+/**
+ * Store key holding the deadline state of a context
+ */
+export const DEADLINE_KEY = '__deadline__';
+
+/**
+ * Deadline state of one context; child contexts share the state of their request
+ */
+export interface DeadlineState {
+  controller: AbortController;
+  /** Epoch milliseconds after which the signal is aborted */
+  deadline?: number;
+}
+
+interface TimedDeadlineState extends DeadlineState {
+  timer?: NodeJS.Timeout;
+}
+
+const DEFAULT_HEADER = 'x-request-timeout';
+const GRPC_TIMEOUT_HEADER = 'grpc-timeout';
+
+/**
+ * Longest delay setTimeout supports; longer ones fire right away
+ */
+const MAX_TIMEOUT = 2_147_483_647;
+
+/**
+ * Milliseconds per gRPC timeout unit
+ */
+const GRPC_TIMEOUT_UNITS: Record<string, number> = {
+  H: 3_600_000,
+  M: 60_000,
+  S: 1_000,
+  m: 1,
+  u: 0.001,
+  n: 0.000001,
+};
+
+/**
+ * Normalizes the `deadline` module option
+ */
+export function resolveDeadlineOptions(
+  option: boolean | DeadlineOptions | undefined,
+): DeadlineOptions | undefined {
+  if (!option) return undefined;
+  return option === true ? {} : option;
+}
+
+/**
+ * Parses a gRPC `grpc-timeout` value (up to 8 digits and a unit, e.g. `500m`, `2S`)
+ *
+ * @returns The timeout in milliseconds, or undefined if the value is malformed, zero or too long
+ */
+export function parseGrpcTimeout(value: string): number | undefined {
+  const match = /^(\d{1,8})([HMSmun])$/.exec(value.trim());
+  if (!match) return undefined;
+  const timeout = Number(match[1]) * GRPC_TIMEOUT_UNITS[match[2]];
+  return timeout > 0 && timeout <= MAX_TIMEOUT ? timeout : undefined;
+}
+
+/**
+ * Parses a timeout header holding a number of milliseconds
+ *
+ * @returns The timeout in milliseconds, or undefined if the value isn't a positive integer
+ * of at most 2^31 - 1
+ */
+export function parseTimeoutHeader(value: string): number | undefined {
+  if (!/^\d+$/.test(value.trim())) return undefined;
+  const timeout = Number(value);
+  return timeout > 0 && timeout <= MAX_TIMEOUT ? timeout : undefined;
+}
+
+function readHeader(adapter: RequestAdapter, request: any, name: string): string | undefined {
+  const value = adapter.getHeader(request, name);
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Computes the time budget of a request: the shortest of the configured
+ * timeout and the budgets sent by the client
+ *
+ * @returns The budget in milliseconds, or undefined when there is none
+ */
+export function resolveRequestTimeout(
+  adapter: RequestAdapter,
+  request: any,
+  options: DeadlineOptions,
+): number | undefined {
+  const budgets: number[] = [];
+
+  if (options.timeout !== undefined && options.timeout > 0) {
+    budgets.push(Math.min(options.timeout, MAX_TIMEOUT));
+  }
+
+  if (options.header !== false) {
+    const value = readHeader(adapter, request, (options.header ?? DEFAULT_HEADER).toLowerCase());
+    const timeout = value ? parseTimeoutHeader(value) : undefined;
+    if (timeout !== undefined) budgets.push(timeout);
+  }
+
+  if (options.grpcTimeout !== false) {
+    const value = readHeader(adapter, request, GRPC_TIMEOUT_HEADER);
+    const timeout = value ? parseGrpcTimeout(value) : undefined;
+    if (timeout !== undefined) budgets.push(timeout);
+  }
+
+  return budgets.length > 0 ? Math.min(...budgets) : undefined;
+}
+
+/**
+ * Opens the deadline of the current request and stores its AbortController in the context
+ * The signal aborts with a ContextAbortedError when the deadline passes or, if enabled,
+ * when the client disconnects before the response is sent. Without a response, the
+ * caller ends the deadline with `endDeadline()` once the handler is done.
+ *
+ * @param contextService - The context service (must be inside an active context)
+ * @param adapter - The adapter used to read the timeout headers
+ * @param request - The incoming request
+ * @param response - The outgoing response, if available
+ * @param options - Deadline options
+ * @returns The deadline state
+ */
+export function applyDeadline(
+  contextService: RequestContextService,
+  adapter: RequestAdapter,
+  request: any,
+  response: any,
+  options: DeadlineOptions,
+): DeadlineState {
+  const controller = new AbortController();
+  const timeout = resolveRequestTimeout(adapter, request, options);
+  const state: TimedDeadlineState = { controller };
+
+  if (timeout !== undefined) {
+    state.deadline = Date.now() + timeout;
+    state.timer = setTimeout(
+      () => controller.abort(new ContextAbortedError('deadline', timeout)),
+      timeout,
+    );
+    // Never keep the process alive for a deadline
+    state.timer.unref();
+  }
+
+  onResponseEnd(response, (aborted) => {
+    clearTimeout(state.timer);
+    if (aborted && options.abortOnDisconnect !== false) {
+      controller.abort(new ContextAbortedError('disconnect'));
+    }
+  });
+
+  contextService.set(DEADLINE_KEY as any, state);
+  return state;
+}
+
+/**
+ * Stops the deadline timer of the current context, if any
+ * Used for contexts without a response (rpc, GraphQL subscriptions) when their handler ends
+ *
+ * @param contextService - The context service (must be inside the context)
+ */
+export function endDeadline(contextService: RequestContextService): void {
+  const state: TimedDeadlineState | undefined = contextService.get(DEADLINE_KEY as any);
+  clearTimeout(state?.timer);
+}
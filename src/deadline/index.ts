@@ -0,0 +1,11 @@
+export { ContextAbortedError } from './context-aborted.error';
+export {
+  DEADLINE_KEY,
+  DeadlineState,
+  resolveDeadlineOptions,
+  parseGrpcTimeout,
+  parseTimeoutHeader,
+  resolveRequestTimeout,
+  applyDeadline,
+  endDeadline,
+} from './deadline';
@@ -1,9 +1,10 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { RequestContextService } from '../request-context.service';
+import { ContextKey, isContextKey } from '../keys';
 
 /**
  * Parameter decorator that retrieves a value from the request context store
- * Supports dot notation for nested properties
+ * Supports dot notation for nested properties and typed key tokens
  *
  * This decorator accesses the context store (set via contextService.set()),
  * not the request object itself. Use @RequestKey for request properties.
@@ -39,6 +40,12 @@ import { RequestContextService } from '../request-context.service';
  *     return { user };
  *   }
  *
+ *   // With a typed key token (returns the token's default when unset)
+ *   @Get('locale')
+ *   getLocale(@ContextValue(LOCALE) locale: string) {
+ *     return { locale };
+ *   }
+ *
  *   // Get deeply nested value
  *   @Get('name')
  *   getName(@ContextValue<string>('user.profile.name') name: string) {
@@ -48,11 +55,11 @@ import { RequestContextService } from '../request-context.service';
  * ```
  */
 export const ContextValue = createParamDecorator(
-  <T = any>(path: string, _ctx: ExecutionContext): T | undefined => {
+  <T = any>(path: string | ContextKey<T>, _ctx: ExecutionContext): T | undefined => {
     try {
       if (RequestContextService.hasInstance()) {
         const contextService = RequestContextService.getInstance();
-        return contextService.getByPath<T>(path);
+        return isContextKey(path) ? contextService.get(path) : contextService.getByPath<T>(path);
       }
     } catch {
       // Return undefined if context is not available
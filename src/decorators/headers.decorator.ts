@@ -1,5 +1,6 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { RequestContextService } from '../request-context.service';
+import { getRequestFromContext } from '../utils';
 
 /**
  * Parameter decorator that retrieves all headers or a specific header from the request
@@ -46,13 +47,13 @@ export const Headers = createParamDecorator(
     }
 
     // Fallback to ExecutionContext
-    const request = ctx.switchToHttp().getRequest();
+    const request = getRequestFromContext(ctx);
 
     if (headerName) {
-      return request.headers?.[headerName.toLowerCase()];
+      return request?.headers?.[headerName.toLowerCase()];
     }
 
-    return request.headers || {};
+    return request?.headers || {};
   },
 );
 
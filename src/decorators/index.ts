@@ -11,3 +11,4 @@ export {
   ContextValueType,
 } from './context-value.decorator';
 export { InjectContext } from './inject-context.decorator';
+export { Signal } from './signal.decorator';
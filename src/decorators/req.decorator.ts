@@ -1,5 +1,6 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { RequestContextService } from '../request-context.service';
+import { getRequestFromContext } from '../utils';
 
 /**
  * Parameter decorator that retrieves the request object from the context
@@ -36,7 +37,7 @@ export const Req = createParamDecorator(
     }
 
     // Fallback to ExecutionContext if service not available
-    return ctx.switchToHttp().getRequest();
+    return getRequestFromContext(ctx);
   },
 );
 
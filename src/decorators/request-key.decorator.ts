@@ -1,5 +1,6 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { RequestContextService } from '../request-context.service';
+import { getRequestFromContext } from '../utils';
 
 /**
  * Resolves a dot-notation path on an object
@@ -80,7 +81,7 @@ export const RequestKey = createParamDecorator(
 
     // Fallback to ExecutionContext if needed
     if (!request) {
-      request = ctx.switchToHttp().getRequest();
+      request = getRequestFromContext(ctx);
     }
 
     if (!request) return undefined;
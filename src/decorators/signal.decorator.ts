@@ -0,0 +1,38 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { RequestContextService } from '../request-context.service';
+
+/**
+ * Parameter decorator that retrieves the AbortSignal of the current request
+ * Requires the `deadline` option; the signal aborts when the deadline passes or the
+ * client disconnects
+ *
+ * @example
+ * ```typescript
+ * import { Controller, Get } from '@nestjs/common';
+ * import { Signal } from '@kitstack/nest-req-ctx';
+ *
+ * @Controller('reports')
+ * export class ReportsController {
+ *   @Get()
+ *   async generate(@Signal() signal: AbortSignal) {
+ *     for (const chunk of chunks) {
+ *       signal.throwIfAborted();
+ *       await this.render(chunk);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export const Signal = createParamDecorator(
+  (_data: unknown, _ctx: ExecutionContext): AbortSignal | undefined => {
+    try {
+      if (RequestContextService.hasInstance()) {
+        return RequestContextService.getInstance().signal;
+      }
+    } catch {
+      // Return undefined if context is not available
+    }
+
+    return undefined;
+  },
+);
@@ -0,0 +1,59 @@
+import { Injectable, Inject, Optional, OnModuleInit } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { loadOptionalPackage } from '../utils/load-package.util';
+import { EventContextOptions, RequestContextModuleOptions } from '../interfaces';
+import { REQUEST_CONTEXT_MODULE_OPTIONS } from '../constants';
+import { patchCqrsBuses, patchEventEmitter } from './event-context';
+
+/**
+ * Patches the application's event emitter and CQRS buses at startup so that
+ * every emit/publish/execute captures the caller's context
+ * Handlers restore it with @RestoreEventContext()
+ */
+@Injectable()
+export class EventContextPropagation implements OnModuleInit {
+  private readonly options: EventContextOptions;
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    @Optional()
+    @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
+    moduleOptions?: RequestContextModuleOptions,
+  ) {
+    this.options = moduleOptions?.events ?? {};
+  }
+
+  onModuleInit(): void {
+    if (this.options.eventEmitter) {
+      const { EventEmitter2 } = loadOptionalPackage(
+        '@nestjs/event-emitter',
+        'EventContextPropagation',
+      );
+      const emitter = this.resolve(EventEmitter2);
+      if (emitter) {
+        patchEventEmitter(emitter);
+      }
+    }
+
+    if (this.options.cqrs) {
+      const { EventBus, CommandBus, QueryBus } = loadOptionalPackage(
+        '@nestjs/cqrs',
+        'EventContextPropagation',
+      );
+      patchCqrsBuses({
+        eventBus: this.resolve(EventBus),
+        commandBus: this.resolve(CommandBus),
+        queryBus: this.resolve(QueryBus),
+      });
+    }
+  }
+
+  private resolve(token: any): object | undefined {
+    try {
+      return this.moduleRef.get(token, { strict: false });
+    } catch {
+      // The integration module isn't imported
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
+import { RequestContextService } from '../request-context.service';
+
+/**
+ * Context captured by the emit/publish/execute call being dispatched
+ * It travels with the call's own async chain, so repeated or concurrent dispatches
+ * of the same payload never see each other's capture
+ */
+const dispatchScope = new AsyncLocalStorage<AsyncResource>();
+
+/**
+ * Context captured by the latest dispatch of each payload (event, command or query)
+ * Lets handlers that run outside the dispatch's async chain (queued or replayed
+ * payloads) find the context; a WeakMap keeps payloads unmodified
+ */
+const payloadContexts = new WeakMap<object, AsyncResource>();
+
+/**
+ * Marks patched methods so buses are never wrapped twice
+ */
+const PATCHED = Symbol('RequestContextPatched');
+
+function isObject(value: unknown): value is object {
+  return value !== null && (typeof value === 'object' || typeof value === 'function');
+}
+
+/**
+ * Dispatches a call with the caller's context captured for its handlers
+ *
+ * @param dispatch - Emits, publishes or executes the payloads
+ * @param payloads - The payloads handed to the emitter or bus
+ * @returns The return value of the dispatch
+ */
+export function captureEventContext<T>(dispatch: () => T, payloads: unknown[] = []): T {
+  const captured = new AsyncResource('RequestContextEvent');
+  payloads.filter(isObject).forEach((payload) => payloadContexts.set(payload, captured));
+  return dispatchScope.run(captured, dispatch);
+}
+
+/**
+ * Gets the context captured for the current handler: the one of the dispatch it
+ * runs for, or else the latest one captured for one of its arguments
+ *
+ * @param args - The handler's arguments
+ * @returns The captured async context or undefined
+ */
+export function getCapturedEventContext(args: unknown[] = []): AsyncResource | undefined {
+  const dispatched = dispatchScope.getStore();
+  if (dispatched) return dispatched;
+
+  for (const arg of args) {
+    const captured = isObject(arg) ? payloadContexts.get(arg) : undefined;
+    if (captured) return captured;
+  }
+  return undefined;
+}
+
+/**
+ * Runs a callback in a child of the current context
+ * Writes inside the callback don't leak back into the caller's context
+ */
+export function runInForkedContext<T>(contextService: RequestContextService, callback: () => T): T {
+  return contextService.isActive() ? contextService.runChild(callback) : callback();
+}
+
+/**
+ * Wraps a method so that every call captures the caller's context
+ *
+ * @param instance - The emitter or bus instance
+ * @param method - The method to wrap
+ * @param selectPayloads - Picks the payloads among the call arguments
+ */
+export function patchEmitMethod(
+  instance: any,
+  method: string,
+  selectPayloads: (args: any[]) => unknown[],
+): void {
+  const original = instance?.[method];
+  if (typeof original !== 'function' || original[PATCHED]) return;
+
+  const patched = function (this: any, ...args: any[]) {
+    return captureEventContext(() => original.apply(this, args), selectPayloads(args));
+  };
+  (patched as any)[PATCHED] = true;
+
+  instance[method] = patched;
+}
+
+/**
+ * Patches an EventEmitter2 instance (@nestjs/event-emitter)
+ * `emit` and `emitAsync` capture the caller's context on every call
+ */
+export function patchEventEmitter(emitter: object): void {
+  const payloads = (args: any[]) => args.slice(1);
+  patchEmitMethod(emitter, 'emit', payloads);
+  patchEmitMethod(emitter, 'emitAsync', payloads);
+}
+
+/**
+ * Patches @nestjs/cqrs buses
+ * `publish`/`publishAll` and `execute` capture the caller's context on every call
+ */
+export function patchCqrsBuses(buses: {
+  eventBus?: object;
+  commandBus?: object;
+  queryBus?: object;
+}): void {
+  patchEmitMethod(buses.eventBus, 'publish', (args) => [args[0]]);
+  patchEmitMethod(buses.eventBus, 'publishAll', (args) => (Array.isArray(args[0]) ? args[0] : []));
+  patchEmitMethod(buses.commandBus, 'execute', (args) => [args[0]]);
+  patchEmitMethod(buses.queryBus, 'execute', (args) => [args[0]]);
+}
@@ -0,0 +1,12 @@
+export {
+  captureEventContext,
+  getCapturedEventContext,
+  runInForkedContext,
+  patchEventEmitter,
+  patchCqrsBuses,
+} from './event-context';
+export {
+  RestoreEventContext,
+  RestoreEventContextOptions,
+} from './restore-event-context.decorator';
+export { EventContextPropagation } from './event-context.propagation';
@@ -0,0 +1,107 @@
+import 'reflect-metadata';
+import { EventEmitter } from 'events';
+import { RequestContextService } from '../request-context.service';
+import { patchCqrsBuses, patchEventEmitter } from './event-context';
+import { RestoreEventContext } from './restore-event-context.decorator';
+
+/**
+ * Stands in for a bus that queues events and hands them to handlers later,
+ * outside the async chain of the publisher
+ */
+class QueuedEventBus {
+  private readonly queued: object[] = [];
+
+  constructor(private readonly handler: (event: object) => unknown) {}
+
+  publish(event: object): void {
+    this.queued.push(event);
+  }
+
+  deliver(): unknown[] {
+    return this.queued.splice(0).map((event) => this.handler(event));
+  }
+}
+
+describe('RestoreEventContext', () => {
+  let ctx: RequestContextService;
+
+  class OrderListener {
+    @RestoreEventContext()
+    onOrderCreated(event: { orderId: string }) {
+      return { orderId: event.orderId, tenantId: ctx.get('tenantId') };
+    }
+
+    @RestoreEventContext({ fork: true })
+    async onOrderForked(_event: object) {
+      await new Promise((resolve) => setImmediate(resolve));
+      ctx.set('tenantId', 'from-listener');
+      return ctx.get('tenantId');
+    }
+  }
+
+  const listener = new OrderListener();
+
+  beforeEach(() => {
+    ctx = new RequestContextService();
+    ctx.onModuleInit();
+  });
+
+  it('restores the publisher context in handlers that run outside its async chain', () => {
+    const bus = new QueuedEventBus((event: any) => listener.onOrderCreated(event));
+    patchCqrsBuses({ eventBus: bus });
+
+    ctx.run(() => bus.publish({ orderId: 'o-1' }), { tenantId: 'acme' });
+    ctx.run(() => bus.publish({ orderId: 'o-2' }), { tenantId: 'globex' });
+
+    expect(ctx.isActive()).toBe(false);
+    expect(bus.deliver()).toEqual([
+      { orderId: 'o-1', tenantId: 'acme' },
+      { orderId: 'o-2', tenantId: 'globex' },
+    ]);
+  });
+
+  it('gives each concurrent dispatch of a shared payload its own context', async () => {
+    const emitter = new EventEmitter();
+    patchEventEmitter(emitter);
+    const seen: string[] = [];
+    emitter.on('order.created', async (event) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      seen.push(listener.onOrderCreated(event).tenantId);
+    });
+    const shared = { orderId: 'o-1' };
+
+    ctx.run(() => emitter.emit('order.created', shared), { tenantId: 'acme' });
+    ctx.run(() => emitter.emit('order.created', shared), { tenantId: 'globex' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(seen.sort()).toEqual(['acme', 'globex']);
+  });
+
+  it('keeps the writes of forked handlers out of the request', async () => {
+    const emitter = new EventEmitter();
+    patchEventEmitter(emitter);
+    let written: Promise<string> | undefined;
+    emitter.on('order.created', (event) => {
+      written = listener.onOrderForked(event);
+    });
+
+    const tenantId = await ctx.runAsync(
+      async () => {
+        emitter.emit('order.created', { orderId: 'o-1' });
+        await written;
+        return ctx.get('tenantId');
+      },
+      { tenantId: 'acme' },
+    );
+
+    await expect(written).resolves.toBe('from-listener');
+    expect(tenantId).toBe('acme');
+  });
+
+  it('runs handlers without a capture as they are', () => {
+    expect(listener.onOrderCreated({ orderId: 'o-1' })).toEqual({
+      orderId: 'o-1',
+      tenantId: undefined,
+    });
+  });
+});
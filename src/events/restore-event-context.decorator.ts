@@ -0,0 +1,55 @@
+import { RequestContextService } from '../request-context.service';
+import { copyMetadata } from '../utils';
+import { getCapturedEventContext, runInForkedContext } from './event-context';
+
+/**
+ * Options for @RestoreEventContext()
+ */
+export interface RestoreEventContextOptions {
+  /**
+   * Runs the handler in a child context seeded with the captured values
+   * Use for async listeners so their writes don't leak back into the request
+   * @default false
+   */
+  fork?: boolean;
+}
+
+/**
+ * Method decorator for @OnEvent listeners and CQRS handlers
+ * Restores the context captured when the event was emitted/published or the
+ * command/query was executed (see `events` module option), also when the handler
+ * runs outside the dispatch's async chain
+ *
+ * @example
+ * ```typescript
+ * @OnEvent('order.created', { async: true })
+ * @RestoreEventContext({ fork: true })
+ * async onOrderCreated(event: OrderCreatedEvent) {
+ *   this.ctx.get('tenantId');
+ * }
+ *
+ * @EventsHandler(OrderCreatedEvent)
+ * export class OrderCreatedHandler implements IEventHandler<OrderCreatedEvent> {
+ *   @RestoreEventContext()
+ *   handle(event: OrderCreatedEvent) {}
+ * }
+ * ```
+ */
+export function RestoreEventContext(options: RestoreEventContextOptions = {}): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const original = descriptor.value;
+
+    descriptor.value = function (this: any, ...args: any[]) {
+      const invoke = () =>
+        options.fork && RequestContextService.hasInstance()
+          ? runInForkedContext(RequestContextService.getInstance(), () => original.apply(this, args))
+          : original.apply(this, args);
+
+      const captured = getCapturedEventContext(args);
+      return captured ? captured.runInAsyncScope(invoke) : invoke();
+    };
+
+    copyMetadata(original, descriptor.value);
+    return descriptor;
+  };
+}
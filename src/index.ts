@@ -2,7 +2,18 @@
 export { RequestContextModule } from './request-context.module';
 
 // Service
-export { RequestContextService } from './request-context.service';
+export {
+  RequestContextService,
+  ActiveSpanContext,
+  ForkedContext,
+} from './request-context.service';
+export { ChildContextStore } from './store';
+export {
+  ContextKey,
+  ContextKeyOptions,
+  createContextKey,
+  isContextKey,
+} from './keys';
 export { BaseRequestContext } from './request-context.base';
 
 // Middleware
@@ -16,14 +27,172 @@ export {
 export { RequestContextGuard } from './request-context.guard';
 export { RequestContextInterceptor } from './request-context.interceptor';
 
+// Lifecycle
+export {
+  LIFECYCLE_STATE_KEY,
+  ContextLifecycleService,
+  ContextLifecycleInterceptor,
+} from './lifecycle';
+
+// Context-Scoped Providers
+export { createContextScopedProviders } from './providers';
+
+// Caching
+export {
+  RequestCache,
+  Memoize,
+  MemoizeOptions,
+  DataLoaderLike,
+  requestScoped,
+  createDataLoader,
+} from './cache';
+
+// Validation
+export {
+  ContextValidationError,
+  predicateSchema,
+  zodSchema,
+  classValidatorSchema,
+} from './validation';
+
+// Write Policies
+export { ContextWriteError, deepFreeze } from './policies';
+
+// Snapshots
+export {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  ContextSnapshot,
+  ClassSerializerOptions,
+  isContextSnapshot,
+  createSnapshot,
+  readSnapshot,
+  createClassSerializer,
+  dateSerializer,
+  mapSerializer,
+  setSerializer,
+  bigintSerializer,
+} from './snapshot';
+
+// RxJS
+export { bindContext, withRequestContext, createContextScheduler } from './rxjs';
+
+// Workers & Child Processes
+export {
+  WORKER_CONTEXT_KEY,
+  CONTEXT_ENV_VAR,
+  ContextMessage,
+  MessageTarget,
+  MessageSource,
+  MessageContextOptions,
+  ContextWorkerOptions,
+  ContextForkOptions,
+  isContextMessage,
+  withWorkerContext,
+  postWithContext,
+  getWorkerContextService,
+  runWithWorkerContext,
+  contextTask,
+  onMessageWithContext,
+  createContextWorker,
+  forkWithContext,
+  runWithProcessContext,
+} from './workers';
+
+// Propagation
+export {
+  HeaderPropagationService,
+  AxiosInstanceLike,
+  FetchLike,
+} from './propagation';
+
+// Request ID
+export {
+  REQUEST_ID_KEY,
+  RequestIdStore,
+  isValidRequestId,
+  generateRequestId,
+  generateUuidV4,
+  generateUuidV7,
+  generateUlid,
+} from './request-id';
+
+// Deadlines
+export { ContextAbortedError, parseGrpcTimeout, parseTimeoutHeader } from './deadline';
+
+// Tracing
+export {
+  TRACE_KEY,
+  TraceContext,
+  TraceStore,
+  TraceParent,
+  generateTraceId,
+  generateSpanId,
+  parseTraceParent,
+  parseTraceState,
+  parseBaggage,
+  formatTraceParent,
+  formatBaggage,
+  serializeTraceContext,
+  extractTraceContext,
+  getOutboundTraceHeaders,
+} from './tracing';
+
+// Logging
+export {
+  ContextLogger,
+  collectLogFields,
+  createPinoMixin,
+  createWinstonFormat,
+} from './logger';
+
+// Queues
+export {
+  JOB_CONTEXT_KEY,
+  JobContextCaptureOptions,
+  RestoreJobContextOptions,
+  captureJobContext,
+  withJobContext,
+  getJobContext,
+  RestoreJobContext,
+} from './queues';
+
+// Events & CQRS
+export {
+  EventContextPropagation,
+  RestoreEventContext,
+  RestoreEventContextOptions,
+  captureEventContext,
+  getCapturedEventContext,
+  runInForkedContext,
+  patchEventEmitter,
+  patchCqrsBuses,
+} from './events';
+
+// Scheduling
+export { WithContext, WithContextOptions, ScheduledContextStore } from './schedule';
+
+// OpenTelemetry
+export { OpenTelemetryBridge, OpenTelemetryContextInterceptor } from './opentelemetry';
+
 // Adapters
 export {
   RequestAdapter,
   AdapterType,
   ExpressAdapter,
   FastifyAdapter,
+  RpcAdapter,
+  RpcRequest,
+  SocketAdapter,
+  SocketRequest,
   expressAdapter,
   fastifyAdapter,
+  rpcAdapter,
+  socketAdapter,
+  createRpcRequest,
+  extractRpcMetadata,
+  createSocketRequest,
+  createSocketConnectionRequest,
   detectAdapterType,
   getAdapter,
   createAdapter,
@@ -44,12 +213,46 @@ export {
   createTypedContextValue,
   ContextValueType,
   InjectContext,
+  Signal,
 } from './decorators';
 
 // Interfaces
 export type {
   ContextSetupType,
   RouteInfo,
+  ContextSetupInfo,
+  RpcContextOptions,
+  HeaderPropagationOptions,
+  PropagationRequestOptions,
+  RequestIdGeneratorType,
+  RequestIdValidationOptions,
+  RequestIdOptions,
+  TracingOptions,
+  DeadlineOptions,
+  ContextKeyMapping,
+  OpenTelemetryOptions,
+  ContextLoggerOptions,
+  EventContextOptions,
+  ContextValidationResult,
+  ContextValidator,
+  ContextPredicate,
+  ContextSchema,
+  ContextValidationMode,
+  ContextKeyValidation,
+  ContextValidationOptions,
+  ContextWritePolicy,
+  ContextValueFactory,
+  LazyValueOptions,
+  ComputedValueDefinition,
+  ContextEndInfo,
+  ContextLifecycle,
+  AfterResponseTask,
+  AfterResponseTaskOptions,
+  AfterResponseOptions,
+  SnapshotSerializer,
+  SnapshotMigration,
+  SnapshotOptions,
+  SnapshotCaptureOptions,
   RequestContextModuleOptions,
   RequestContextOptionsFactory,
   RequestContextModuleAsyncOptions,
@@ -73,6 +276,15 @@ export type {
 
 export { isExpressRequest, isFastifyRequest } from './types';
 
+// Utilities
+export {
+  GraphQLOperationInfo,
+  getRequestFromContext,
+  getResponseFromContext,
+  getGraphQLOperationInfo,
+  bindAsyncIterator,
+} from './utils';
+
 // Constants
 export {
   REQUEST_CONTEXT_MODULE_OPTIONS,
@@ -0,0 +1,40 @@
+/**
+ * Work deferred until the response has been flushed
+ * Runs in the request's context; its result is ignored
+ */
+export type AfterResponseTask = () => unknown | Promise<unknown>;
+
+/**
+ * Options for a single `afterResponse()` task
+ */
+export interface AfterResponseTaskOptions {
+  /**
+   * Name used in log messages when the task fails or times out
+   */
+  name?: string;
+
+  /**
+   * Time after which the task is reported as timed out, in milliseconds
+   * Overrides the module-wide `afterResponse.timeout`
+   */
+  timeout?: number;
+}
+
+/**
+ * Configuration for tasks queued with `afterResponse()`
+ */
+export interface AfterResponseOptions {
+  /**
+   * Time after which a task is reported as timed out and no longer awaited, in milliseconds
+   * The task itself can't be cancelled. `Infinity` disables the timeout.
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * How long application shutdown waits for running tasks, in milliseconds
+   * Requires `app.enableShutdownHooks()` for signal-triggered shutdowns
+   * @default 10000
+   */
+  drainTimeout?: number;
+}
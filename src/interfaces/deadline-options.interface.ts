@@ -0,0 +1,34 @@
+/**
+ * Configuration for the request deadline feature
+ * The budget is the shortest of `timeout` and the budgets sent by the client
+ *
+ * @example
+ * ```typescript
+ * deadline: { timeout: 10_000, header: 'x-request-timeout' }
+ * ```
+ */
+export interface DeadlineOptions {
+  /**
+   * Time budget of every request, in milliseconds
+   * Without it, only requests carrying a timeout header get a deadline
+   */
+  timeout?: number;
+
+  /**
+   * Header carrying the client's budget in milliseconds; false to ignore it
+   * @default 'x-request-timeout'
+   */
+  header?: string | false;
+
+  /**
+   * Whether to read the gRPC-style `grpc-timeout` header (e.g. `500m`, `2S`)
+   * @default true
+   */
+  grpcTimeout?: boolean;
+
+  /**
+   * Whether to abort the signal when the client disconnects before the response is sent
+   * @default true
+   */
+  abortOnDisconnect?: boolean;
+}
@@ -0,0 +1,21 @@
+/**
+ * Configuration for context propagation through event emitters and CQRS buses
+ *
+ * @example
+ * ```typescript
+ * events: { eventEmitter: true, cqrs: true }
+ * ```
+ */
+export interface EventContextOptions {
+  /**
+   * Patches the EventEmitter2 instance of @nestjs/event-emitter
+   * @default false
+   */
+  eventEmitter?: boolean;
+
+  /**
+   * Patches EventBus, CommandBus and QueryBus of @nestjs/cqrs
+   * @default false
+   */
+  cqrs?: boolean;
+}
@@ -1,7 +1,53 @@
 export {
   ContextSetupType,
   RouteInfo,
+  ContextSetupInfo,
+  RpcContextOptions,
   RequestContextModuleOptions,
   RequestContextOptionsFactory,
   RequestContextModuleAsyncOptions,
 } from './module-options.interface';
+export {
+  HeaderPropagationOptions,
+  PropagationRequestOptions,
+} from './propagation-options.interface';
+export {
+  RequestIdGeneratorType,
+  RequestIdValidationOptions,
+  RequestIdOptions,
+} from './request-id-options.interface';
+export { TracingOptions } from './tracing-options.interface';
+export {
+  ContextKeyMapping,
+  OpenTelemetryOptions,
+} from './opentelemetry-options.interface';
+export { ContextLoggerOptions } from './logger-options.interface';
+export { EventContextOptions } from './events-options.interface';
+export {
+  SnapshotSerializer,
+  SnapshotMigration,
+  SnapshotOptions,
+  SnapshotCaptureOptions,
+} from './snapshot-options.interface';
+export {
+  ContextValidationResult,
+  ContextValidator,
+  ContextPredicate,
+  ContextSchema,
+  ContextValidationMode,
+  ContextKeyValidation,
+  ContextValidationOptions,
+} from './validation-options.interface';
+export { ContextWritePolicy } from './policy-options.interface';
+export {
+  ContextValueFactory,
+  LazyValueOptions,
+  ComputedValueDefinition,
+} from './lazy-options.interface';
+export { ContextEndInfo, ContextLifecycle } from './lifecycle-options.interface';
+export {
+  AfterResponseTask,
+  AfterResponseTaskOptions,
+  AfterResponseOptions,
+} from './after-response-options.interface';
+export { DeadlineOptions } from './deadline-options.interface';
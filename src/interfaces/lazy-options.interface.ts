@@ -0,0 +1,40 @@
+import type { RequestContextService } from '../request-context.service';
+
+/**
+ * Produces a lazy or computed context value
+ * Async factories are resolved through `getAsync()`
+ */
+export type ContextValueFactory<T = any> = (
+  contextService: RequestContextService,
+) => T | Promise<T>;
+
+/**
+ * Options for `setLazy()`
+ */
+export interface LazyValueOptions {
+  /**
+   * Keys the value is derived from
+   * Setting or deleting one of them discards the memoized value
+   */
+  dependsOn?: string[];
+}
+
+/**
+ * A computed key declared in the module options
+ *
+ * @example
+ * ```typescript
+ * computed: {
+ *   tenant: {
+ *     factory: (ctx) => tenantRepository.findById(ctx.get('tenantId')),
+ *     dependsOn: ['tenantId'],
+ *   },
+ * }
+ * ```
+ */
+export interface ComputedValueDefinition<T = any> extends LazyValueOptions {
+  /**
+   * Produces the value on first access in each request
+   */
+  factory: ContextValueFactory<T>;
+}
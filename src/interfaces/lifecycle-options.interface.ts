@@ -0,0 +1,63 @@
+import type { RequestContextService } from '../request-context.service';
+import type { ContextSetupInfo } from './module-options.interface';
+
+/**
+ * Information passed to `onEnd`
+ */
+export interface ContextEndInfo {
+  /** The kind of execution context that was opened */
+  type: ContextSetupInfo['type'];
+  /** The final context values (internal keys excluded) */
+  values: Record<string, any>;
+  /** The response status code (HTTP only) */
+  statusCode?: number;
+  /** Time since the context was opened, in milliseconds */
+  durationMs: number;
+  /** Whether the connection closed before the response was flushed */
+  aborted: boolean;
+  /** The error reported to `onError`, if any */
+  error?: unknown;
+}
+
+/**
+ * Hooks called around each context
+ * Declare them inline in the `lifecycle` option or as injectable classes
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class AccessLog implements ContextLifecycle {
+ *   constructor(private readonly logger: PinoLogger) {}
+ *
+ *   onEnd(ctx: RequestContextService, info: ContextEndInfo) {
+ *     this.logger.info({ requestId: info.values.requestId, status: info.statusCode, ms: info.durationMs });
+ *   }
+ * }
+ *
+ * RequestContextModule.forRoot({ lifecycle: [AccessLog] });
+ * ```
+ */
+export interface ContextLifecycle {
+  /**
+   * Called once the context is initialized (after `setup`), before the handler runs
+   * Errors fail the request like errors thrown by `setup`
+   */
+  onStart?(
+    contextService: RequestContextService,
+    request: any,
+    info: ContextSetupInfo,
+  ): void | Promise<void>;
+
+  /**
+   * Called inside the context once it is done: when the response is flushed or the
+   * connection closes (HTTP), or when the handler completes (other transports)
+   * Errors are logged and never reach the client
+   */
+  onEnd?(contextService: RequestContextService, info: ContextEndInfo): void | Promise<void>;
+
+  /**
+   * Called inside the context when initialization or the handler fails
+   * Errors are logged; the original error keeps propagating
+   */
+  onError?(error: unknown, contextService: RequestContextService): void | Promise<void>;
+}
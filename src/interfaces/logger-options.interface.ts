@@ -0,0 +1,40 @@
+import type { LoggerService } from '@nestjs/common';
+import { ContextKeyMapping } from './opentelemetry-options.interface';
+
+/**
+ * Configuration for ContextLogger and the pino/winston mixins
+ *
+ * @example
+ * ```typescript
+ * logger: {
+ *   fields: { requestId: 'requestId', 'user.id': 'userId', tenantId: 'tenantId' },
+ *   includeRoute: true,
+ * }
+ * ```
+ */
+export interface ContextLoggerOptions {
+  /**
+   * Context paths added to every log line (dot notation supported)
+   * An object renames them (context path -> log field)
+   * @default ['requestId', 'userId', 'tenantId']
+   */
+  fields?: ContextKeyMapping;
+
+  /**
+   * Whether to add a `route` field (method and path) taken from the request adapter
+   * @default true
+   */
+  includeRoute?: boolean;
+
+  /**
+   * Whether to add `traceId` and `spanId` fields
+   * @default false
+   */
+  includeTrace?: boolean;
+
+  /**
+   * Logger that ContextLogger forwards enriched messages to
+   * @default new ConsoleLogger()
+   */
+  baseLogger?: LoggerService;
+}
@@ -2,6 +2,19 @@ import { Type, ModuleMetadata, Provider } from '@nestjs/common';
 import type { RouteInfo as NestRouteInfo } from '@nestjs/common/interfaces';
 import { AdapterType } from '../adapters';
 import { RequestContextService } from '../request-context.service';
+import { HeaderPropagationOptions } from './propagation-options.interface';
+import { RequestIdOptions } from './request-id-options.interface';
+import { TracingOptions } from './tracing-options.interface';
+import { OpenTelemetryOptions } from './opentelemetry-options.interface';
+import { ContextLoggerOptions } from './logger-options.interface';
+import { EventContextOptions } from './events-options.interface';
+import { SnapshotOptions } from './snapshot-options.interface';
+import { ContextValidationOptions } from './validation-options.interface';
+import { ContextWritePolicy } from './policy-options.interface';
+import { ComputedValueDefinition, ContextValueFactory } from './lazy-options.interface';
+import { ContextLifecycle } from './lifecycle-options.interface';
+import { AfterResponseOptions } from './after-response-options.interface';
+import { DeadlineOptions } from './deadline-options.interface';
 
 /**
  * Determines how the context is initialized
@@ -17,6 +30,44 @@ export type ContextSetupType = 'middleware' | 'guard' | 'interceptor';
  */
 export type RouteInfo = NestRouteInfo;
 
+/**
+ * Information about the execution that opened the context
+ * Passed as the third argument to the `setup` callback
+ */
+export interface ContextSetupInfo {
+  /**
+   * The kind of execution context ('ws' is passed once per WebSocket connection)
+   * GraphQL queries and mutations are set up as 'http' when middleware opened their context
+   */
+  type: 'http' | 'rpc' | 'graphql' | 'ws';
+  /** The message pattern (rpc only) */
+  pattern?: string;
+  /** The GraphQL operation type (graphql only) */
+  operationType?: 'query' | 'mutation' | 'subscription';
+  /** The GraphQL operation name (graphql only) */
+  operationName?: string;
+  /** The GraphQL operation variables (graphql only) */
+  variables?: Record<string, any>;
+}
+
+/**
+ * Options for context propagation into microservice message handlers
+ */
+export interface RpcContextOptions {
+  /**
+   * Payload property that carries context values from the sender
+   * The property is read from the message data and its entries are copied into the context
+   * @default '_context'
+   */
+  metadataKey?: string;
+
+  /**
+   * Allowlist of context keys that may be copied in from message metadata
+   * When omitted or empty, nothing is copied: the sender controls the payload
+   */
+  allowedKeys?: string[];
+}
+
 /**
  * Configuration options for RequestContextModule.forRoot()
  */
@@ -63,20 +114,189 @@ export interface RequestContextModuleOptions {
    */
   exclude?: (string | RouteInfo)[];
 
+  /**
+   * Enables context initialization for @MessagePattern/@EventPattern handlers
+   * in microservices and hybrid applications. A global interceptor opens a
+   * context for each RPC call and stores an RpcRequest as the request object.
+   *
+   * @example
+   * ```typescript
+   * rpc: { metadataKey: '_context', allowedKeys: ['tenantId', 'userId'] }
+   * ```
+   */
+  rpc?: boolean | RpcContextOptions;
+
+  /**
+   * Enables context initialization for @nestjs/graphql resolvers
+   * Queries and mutations reuse the context opened for the HTTP request when one exists;
+   * every subscription operation gets its own context that stays bound to its event stream
+   *
+   * `setup` receives `{ type: 'graphql' }` with the operation info only when the interceptor
+   * opens the context: always for subscriptions, and for queries and mutations unless
+   * `setupType` is 'middleware', whose context is set up for the HTTP request instead
+   * @default false
+   */
+  graphql?: boolean;
+
+  /**
+   * Enables context initialization for @nestjs/websockets gateways
+   * `setup` runs once per connection with a SocketRequest built from the handshake headers
+   * and query; every @SubscribeMessage call runs in a new context seeded with a shallow copy
+   * of the plain values `setup` stored (lazy values registered in `setup` are not carried)
+   * @default false
+   */
+  websocket?: boolean;
+
+  /**
+   * Outbound header propagation used by HeaderPropagationService
+   * Forwards incoming headers and context values on HttpService/fetch calls
+   */
+  propagation?: HeaderPropagationOptions;
+
+  /**
+   * Built-in request ID handling (Express, Fastify and the interceptor-initialized transports)
+   * Reuses a valid inbound ID or generates one, stores it under the `requestId`
+   * context key and echoes it as a response header. Runs before `setup`.
+   *
+   * @example
+   * ```typescript
+   * requestId: { header: 'x-request-id', generator: 'uuidv7' }
+   * ```
+   */
+  requestId?: boolean | RequestIdOptions;
+
+  /**
+   * W3C Trace Context and Baggage handling
+   * Parses `traceparent`, `tracestate` and `baggage`, starts a new span for this
+   * service and stores the result under the `trace` context key. Runs before `setup`.
+   *
+   * @example
+   * ```typescript
+   * tracing: { baggage: true }
+   * ```
+   */
+  tracing?: boolean | TracingOptions;
+
+  /**
+   * Request deadlines and cancellation
+   * Computes a deadline from `timeout` and the client's `x-request-timeout`/`grpc-timeout`
+   * headers and keeps an AbortSignal in the context (`ctx.signal`, `@Signal()`) that aborts
+   * when the deadline passes or the client disconnects. Runs before `setup`.
+   *
+   * @example
+   * ```typescript
+   * deadline: { timeout: 10_000 }
+   * ```
+   */
+  deadline?: boolean | DeadlineOptions;
+
+  /**
+   * OpenTelemetry bridge (requires `@opentelemetry/api`)
+   * Copies selected context keys onto the active span and OTel baggage before each
+   * handler and makes getTraceId()/getSpanId() return the active span's IDs
+   */
+  openTelemetry?: OpenTelemetryOptions;
+
+  /**
+   * Fields and base logger used by ContextLogger
+   */
+  logger?: ContextLoggerOptions;
+
+  /**
+   * Context capture for @nestjs/event-emitter and @nestjs/cqrs
+   * Patched emitters and buses capture the caller's context; handlers restore it
+   * with @RestoreEventContext()
+   */
+  events?: EventContextOptions;
+
+  /**
+   * Serializers and schema migrations used by `snapshot()` and `restore()`
+   */
+  snapshot?: SnapshotOptions;
+
+  /**
+   * Per-key schemas for context values
+   * Values are checked when they are written: on `set()`, when a lazy value resolves, and for
+   * the initial values given to `run()` when `setup` has finished, which also reports
+   * `required` keys that were never set
+   */
+  validation?: ContextValidationOptions;
+
+  /**
+   * Write policies by context key, enforced by `set()`, `delete()` and `clear()`
+   * Keys created with `createContextKey(name, { policy })` carry their own policy
+   *
+   * @example
+   * ```typescript
+   * policies: { user: 'readonly-after-setup', tenantId: 'writeOnce', permissions: 'frozen' }
+   * ```
+   */
+  policies?: Record<string, ContextWritePolicy>;
+
+  /**
+   * Computed keys, resolved on first access in each request and memoized
+   * Use `getAsync()` for async factories
+   *
+   * @example
+   * ```typescript
+   * computed: {
+   *   featureFlags: {
+   *     factory: (ctx) => flagsClient.load(ctx.get('tenantId')),
+   *     dependsOn: ['tenantId'],
+   *   },
+   * }
+   * ```
+   */
+  computed?: Record<string, ContextValueFactory | ComputedValueDefinition>;
+
+  /**
+   * Classes provided as context-scoped: one instance per context, built lazily and
+   * reached through a singleton proxy. A faster alternative to `Scope.REQUEST`,
+   * which rebuilds the whole dependency chain on every request.
+   * Feature modules can register more with `RequestContextModule.forFeature()`.
+   */
+  contextScoped?: Type[];
+
+  /**
+   * Hooks called when each context starts, ends and fails
+   * Pass objects or injectable classes. Classes are taken from the application's providers
+   * (register them in one of your modules) and instantiated when they aren't registered.
+   * `onEnd` fires when the response is flushed or the connection
+   * closes (Express `finish`/`close`, the raw response of a Fastify reply).
+   *
+   * @example
+   * ```typescript
+   * lifecycle: [
+   *   AccessLogHooks,
+   *   { onEnd: (ctx, { statusCode, durationMs }) => metrics.observe(statusCode, durationMs) },
+   * ]
+   * ```
+   */
+  lifecycle?: Array<ContextLifecycle | Type<ContextLifecycle>>;
+
+  /**
+   * Timeouts of the tasks queued with `afterResponse()`
+   */
+  afterResponse?: AfterResponseOptions;
+
   /**
    * Custom setup function called after context is initialized
    * Use this to set initial values in the context
    *
    * @example
    * ```typescript
-   * setup: (ctx, req) => {
+   * setup: (ctx, req, info) => {
    *   ctx.set('requestId', req.headers['x-request-id']);
+   *   if (info?.type === 'graphql') {
+   *     ctx.set('operationName', info.operationName);
+   *   }
    * }
    * ```
    */
   setup?: (
     contextService: RequestContextService,
     request: any,
+    info?: ContextSetupInfo,
   ) => void | Promise<void>;
 }
 
@@ -100,6 +320,37 @@ export interface RequestContextModuleAsyncOptions
    */
   isGlobal?: boolean;
 
+  /**
+   * Registers the interceptor that initializes context for microservice handlers
+   * Must be known at module definition time; used as the `rpc` option
+   * when the resolved options don't set one
+   */
+  rpc?: boolean | RpcContextOptions;
+
+  /**
+   * Registers the interceptor that initializes context for GraphQL resolvers
+   * Used as the `graphql` option when the resolved options don't set one
+   */
+  graphql?: boolean;
+
+  /**
+   * Registers the interceptor that initializes context for WebSocket gateways
+   * Used as the `websocket` option when the resolved options don't set one
+   */
+  websocket?: boolean;
+
+  /**
+   * Registers the interceptor of the OpenTelemetry bridge
+   * Used as the `openTelemetry` option when the resolved options don't set one
+   */
+  openTelemetry?: OpenTelemetryOptions;
+
+  /**
+   * Classes provided as context-scoped (see RequestContextModuleOptions.contextScoped)
+   * Must be known at module definition time
+   */
+  contextScoped?: Type[];
+
   /**
    * Use an existing provider that implements RequestContextOptionsFactory
    */
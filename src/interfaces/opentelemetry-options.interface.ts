@@ -0,0 +1,29 @@
+/**
+ * Mapping of context keys to target names
+ * An array keeps the key names; an object renames them (context key -> target name)
+ */
+export type ContextKeyMapping = string[] | Record<string, string>;
+
+/**
+ * Configuration for the OpenTelemetry bridge
+ * Requires `@opentelemetry/api`
+ *
+ * @example
+ * ```typescript
+ * openTelemetry: {
+ *   spanAttributes: { tenantId: 'app.tenant_id', userId: 'enduser.id' },
+ *   baggage: ['tenantId'],
+ * }
+ * ```
+ */
+export interface OpenTelemetryOptions {
+  /**
+   * Context keys copied onto the active span as attributes
+   */
+  spanAttributes?: ContextKeyMapping;
+
+  /**
+   * Context keys copied onto OpenTelemetry baggage for the handler's execution
+   */
+  baggage?: ContextKeyMapping;
+}
@@ -0,0 +1,7 @@
+/**
+ * Write policy for a context key
+ * - 'writeOnce': the first `set()` wins; later writes and deletes throw
+ * - 'readonly-after-setup': writable until `setup` has finished, read-only afterwards
+ * - 'frozen': like 'writeOnce', and the value is deep-frozen when stored
+ */
+export type ContextWritePolicy = 'writeOnce' | 'readonly-after-setup' | 'frozen';
@@ -0,0 +1,69 @@
+/**
+ * Configuration for outbound header propagation
+ *
+ * @example
+ * ```typescript
+ * propagation: {
+ *   headers: ['x-request-id', 'traceparent'],
+ *   contextKeys: ['tenantId'],
+ *   rename: { tenantId: 'x-tenant-id' },
+ *   patchFetch: true,
+ * }
+ * ```
+ */
+export interface HeaderPropagationOptions {
+  /**
+   * Incoming request headers to forward on outbound calls (allowlist, case-insensitive)
+   */
+  headers?: string[];
+
+  /**
+   * Context keys to send on outbound calls (allowlist)
+   * The header name is the key itself unless renamed. Objects are sent as JSON; values
+   * that aren't valid header values (e.g. non-Latin-1 text) are skipped with a warning
+   */
+  contextKeys?: string[];
+
+  /**
+   * Renaming rules from an incoming header name or context key to the outbound header name
+   * Header names match case-insensitively; context keys match exactly
+   */
+  rename?: Record<string, string>;
+
+  /**
+   * Whether to send the current trace as `traceparent`/`tracestate`/`baggage`
+   * Requires the `tracing` option
+   * @default false
+   */
+  trace?: boolean;
+
+  /**
+   * Whether propagated values replace headers that were set explicitly on the call
+   * @default false
+   */
+  overwrite?: boolean;
+
+  /**
+   * Patches the global `fetch` while the application is running
+   * Leave disabled to wrap fetch implementations explicitly with `createFetch()`
+   * @default false
+   */
+  patchFetch?: boolean;
+}
+
+/**
+ * Per-call options understood by the propagating fetch and axios interceptor
+ *
+ * @example
+ * ```typescript
+ * await fetch(url, { propagateContext: false } as PropagationRequestOptions);
+ * await firstValueFrom(http.get(url, { propagateContext: false } as any));
+ * ```
+ */
+export interface PropagationRequestOptions {
+  /**
+   * Set to false to skip header propagation for this call
+   * @default true
+   */
+  propagateContext?: boolean;
+}
@@ -0,0 +1,68 @@
+/**
+ * Built-in request ID generators
+ * - 'uuid': random UUID (version 4)
+ * - 'uuidv7': time-ordered UUID (version 7)
+ * - 'ulid': lexicographically sortable ULID
+ */
+export type RequestIdGeneratorType = 'uuid' | 'uuidv7' | 'ulid';
+
+/**
+ * Rules an inbound request ID must satisfy to be reused
+ */
+export interface RequestIdValidationOptions {
+  /**
+   * Maximum accepted length
+   * @default 128
+   */
+  maxLength?: number;
+
+  /**
+   * Accepted characters
+   * @default /^[A-Za-z0-9._:-]+$/
+   */
+  pattern?: RegExp;
+}
+
+/**
+ * Configuration for the built-in request ID feature
+ *
+ * @example
+ * ```typescript
+ * requestId: {
+ *   header: 'x-correlation-id',
+ *   generator: 'uuidv7',
+ *   validation: { maxLength: 64 },
+ * }
+ * ```
+ */
+export interface RequestIdOptions {
+  /**
+   * Header the ID is read from and echoed back on
+   * @default 'x-request-id'
+   */
+  header?: string;
+
+  /**
+   * Generator used when no valid inbound ID is present
+   * @default 'uuid'
+   */
+  generator?: RequestIdGeneratorType | ((request: any) => string);
+
+  /**
+   * Whether to reuse an ID sent by the client
+   * @default true
+   */
+  trustIncoming?: boolean;
+
+  /**
+   * Validation applied to inbound IDs; invalid IDs are replaced with a generated one
+   * Set to false to accept any non-empty value
+   */
+  validation?: RequestIdValidationOptions | false;
+
+  /**
+   * Whether to write the ID back as a response header
+   * @default true
+   */
+  echo?: boolean;
+}
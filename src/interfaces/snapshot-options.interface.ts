@@ -0,0 +1,92 @@
+/**
+ * Converts values of one type to and from a JSON-safe form inside a snapshot
+ *
+ * @example
+ * ```typescript
+ * const moneySerializer: SnapshotSerializer<Money> = {
+ *   type: 'Money',
+ *   test: (value): value is Money => value instanceof Money,
+ *   serialize: (value) => ({ amount: value.amount, currency: value.currency }),
+ *   deserialize: (data) => new Money(data.amount, data.currency),
+ * };
+ * ```
+ */
+export interface SnapshotSerializer<T = any> {
+  /**
+   * Unique type tag written into the snapshot
+   * Must stay stable across deploys so stored snapshots can be restored
+   */
+  type: string;
+
+  /**
+   * Whether this serializer handles the value
+   */
+  test(value: unknown): value is T;
+
+  /**
+   * Converts the value to a JSON-safe form
+   *
+   * @param value - The value to convert
+   * @param encode - Encodes nested values with the registered serializers
+   */
+  serialize(value: T, encode: (value: unknown) => unknown): unknown;
+
+  /**
+   * Rebuilds the value from its serialized form
+   *
+   * @param data - The serialized form
+   * @param decode - Decodes nested values with the registered serializers
+   */
+  deserialize(data: any, decode: (value: unknown) => unknown): T;
+}
+
+/**
+ * Upgrades snapshot values from one schema version to the next
+ */
+export type SnapshotMigration = (values: Record<string, any>) => Record<string, any>;
+
+/**
+ * Configuration for context snapshots
+ *
+ * @example
+ * ```typescript
+ * snapshot: {
+ *   serializers: [createClassSerializer(Money)],
+ *   schemaVersion: 2,
+ *   migrations: {
+ *     // v1 stored the tenant as `tenant`
+ *     1: ({ tenant, ...rest }) => ({ ...rest, tenantId: tenant }),
+ *   },
+ * }
+ * ```
+ */
+export interface SnapshotOptions {
+  /**
+   * Additional serializers, tried before the built-in Date, Map, Set and BigInt serializers
+   */
+  serializers?: SnapshotSerializer[];
+
+  /**
+   * Version of the application's context shape, stamped into every snapshot
+   * Bump it when keys are renamed or their values change shape
+   * @default 1
+   */
+  schemaVersion?: number;
+
+  /**
+   * Migrations keyed by the schema version they upgrade from
+   * Older snapshots are upgraded step by step until they reach `schemaVersion`
+   */
+  migrations?: Record<number, SnapshotMigration>;
+}
+
+/**
+ * Per-call options for `snapshot()`
+ */
+export interface SnapshotCaptureOptions {
+  /**
+   * Context keys to capture (allowlist)
+   * When omitted, every non-internal key from getAll() is captured
+   */
+  keys?: string[];
+}
@@ -0,0 +1,28 @@
+/**
+ * Configuration for W3C Trace Context and Baggage handling
+ *
+ * @example
+ * ```typescript
+ * tracing: { baggage: true, sampled: false }
+ * ```
+ */
+export interface TracingOptions {
+  /**
+   * Whether to parse the `baggage` header
+   * @default true
+   */
+  baggage?: boolean;
+
+  /**
+   * Whether to start a new trace when no valid `traceparent` header is present
+   * When disabled, no `trace` value is stored for such requests
+   * @default true
+   */
+  startNewTrace?: boolean;
+
+  /**
+   * Sampled flag used for traces started by this service
+   * @default true
+   */
+  sampled?: boolean;
+}
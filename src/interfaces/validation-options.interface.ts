@@ -0,0 +1,86 @@
+/**
+ * Result of validating one context value
+ */
+export interface ContextValidationResult {
+  /** Whether the value is valid */
+  valid: boolean;
+  /** Human-readable issues (empty when valid) */
+  issues: string[];
+}
+
+/**
+ * Validates context values for one key
+ * Built by the predicate, zod and class-validator adapters
+ */
+export interface ContextValidator {
+  validate(value: unknown): ContextValidationResult;
+}
+
+/**
+ * Plain predicate: return false (or an issue message) to reject the value
+ */
+export type ContextPredicate = (value: unknown) => boolean | string;
+
+/**
+ * Any schema shape accepted by the validation registry
+ * - a ContextValidator (e.g. from `classValidatorSchema()`)
+ * - a zod schema (anything with `safeParse`)
+ * - a predicate function
+ */
+export type ContextSchema = ContextValidator | ContextPredicate | { safeParse(value: unknown): any };
+
+/**
+ * What to do when a value fails validation
+ * - 'throw': throw a ContextValidationError (default)
+ * - 'log': log a warning and keep the value
+ */
+export type ContextValidationMode = 'throw' | 'log';
+
+/**
+ * Validation settings for one key
+ */
+export interface ContextKeyValidation {
+  /** The schema the value must satisfy */
+  schema: ContextSchema;
+
+  /**
+   * Overrides the registry-wide `onInvalid` for this key
+   */
+  onInvalid?: ContextValidationMode;
+
+  /**
+   * Whether the key must be set once `setup` has finished
+   * @default false
+   */
+  required?: boolean;
+}
+
+/**
+ * Per-key schema registry for context values
+ * Values are validated when they are written (on `set()` or when a lazy value resolves);
+ * when `setup` finishes, the initial values given to `run()` are validated and
+ * `required` keys that were never set are reported
+ *
+ * @example
+ * ```typescript
+ * validation: {
+ *   schemas: {
+ *     tenantId: (value) => typeof value === 'string' && value.length > 0,
+ *     user: { schema: UserSchema, required: true }, // zod
+ *     settings: { schema: classValidatorSchema(TenantSettings), onInvalid: 'log' },
+ *   },
+ * }
+ * ```
+ */
+export interface ContextValidationOptions {
+  /**
+   * Schemas by context key
+   */
+  schemas: Record<string, ContextSchema | ContextKeyValidation>;
+
+  /**
+   * Default behavior for invalid values
+   * @default 'throw'
+   */
+  onInvalid?: ContextValidationMode;
+}
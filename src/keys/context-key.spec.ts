@@ -0,0 +1,61 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { ContextWriteError } from '../policies';
+import { assertUniqueContextKeys, createContextKey, isContextKey } from './context-key';
+
+describe('context keys', () => {
+  const LOCALE = createContextKey<string>('locale', { default: 'en' });
+  const CURRENT_USER = createContextKey<{ id: number }>('user');
+  const TENANT = createContextKey<string>('tenantId', { policy: 'writeOnce' });
+
+  let ctx: RequestContextService;
+
+  beforeEach(() => {
+    ctx = new RequestContextService();
+  });
+
+  it('reads and writes the same slot as the string key', () => {
+    ctx.run(() => {
+      ctx.set(CURRENT_USER, { id: 42 });
+
+      expect(ctx.get(CURRENT_USER)).toEqual({ id: 42 });
+      expect(ctx.get('user')).toEqual({ id: 42 });
+      expect(ctx.has(CURRENT_USER)).toBe(true);
+      expect(ctx.delete(CURRENT_USER)).toBe(true);
+      expect(ctx.get(CURRENT_USER)).toBeUndefined();
+    });
+  });
+
+  it('returns the default while the key is not set', () => {
+    ctx.run(() => {
+      expect(ctx.get(LOCALE)).toBe('en');
+      expect(ctx.has(LOCALE)).toBe(false);
+
+      ctx.set(LOCALE, 'fr');
+      expect(ctx.get(LOCALE)).toBe('fr');
+    });
+  });
+
+  it('enforces the declared write policy', () => {
+    ctx.run(() => {
+      ctx.set(TENANT, 'acme');
+
+      expect(() => ctx.set('tenantId', 'globex')).toThrow(ContextWriteError);
+    });
+  });
+
+  it('rejects reserved names', () => {
+    expect(() => createContextKey('__request__')).toThrow('reserved for internal keys');
+  });
+
+  it('reports keys declared twice when the module boots', () => {
+    expect(isContextKey(LOCALE)).toBe(true);
+    expect(isContextKey('locale')).toBe(false);
+    expect(() => assertUniqueContextKeys()).not.toThrow();
+
+    createContextKey<string>('locale', { description: 'billing locale' });
+
+    expect(() => assertUniqueContextKeys()).toThrow('Context key collision: "locale"');
+    expect(() => ctx.onModuleInit()).toThrow('billing locale');
+  });
+});
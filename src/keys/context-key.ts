@@ -0,0 +1,145 @@
+import type { ContextWritePolicy } from '../interfaces';
+
+/**
+ * Options for createContextKey
+ */
+export interface ContextKeyOptions<T> {
+  /**
+   * Value returned by `get()` when the key is not set
+   * The same instance is returned to every request, so prefer immutable values
+   */
+  default?: T;
+
+  /**
+   * Human-readable description, shown in collision errors
+   */
+  description?: string;
+
+  /**
+   * Write policy enforced for this key
+   */
+  policy?: ContextWritePolicy;
+}
+
+/**
+ * Typed token for a context slot
+ * Feature modules declare their own keys instead of extending a shared store interface
+ *
+ * @template T - The type of the stored value
+ * @template TDefault - `T` when the key has a default, `undefined` otherwise
+ */
+export class ContextKey<T, TDefault extends T | undefined = T | undefined> {
+  /**
+   * @internal Brand that keeps `T` in the structural type
+   */
+  declare readonly __type?: T;
+
+  constructor(
+    /** The store key the value is kept under */
+    readonly name: string,
+    /** Value returned when the key is not set */
+    readonly defaultValue: TDefault,
+    /** Optional description */
+    readonly description?: string,
+    /** Write policy enforced for this key */
+    readonly policy?: ContextWritePolicy,
+  ) {}
+
+  toString(): string {
+    return `ContextKey(${this.name})`;
+  }
+}
+
+/**
+ * Every key created with createContextKey, by name
+ */
+const declaredKeys = new Map<string, ContextKey<any>[]>();
+
+/**
+ * Creates a typed context key
+ *
+ * @param name - The store key; must be unique across the application
+ * @param options - Default value and description
+ * @returns The key token
+ * @throws Error if the name uses the reserved `__` prefix
+ *
+ * @example
+ * ```typescript
+ * export const CURRENT_USER = createContextKey<User>('user');
+ * export const LOCALE = createContextKey<string>('locale', { default: 'en' });
+ * export const TENANT = createContextKey<string>('tenantId', { policy: 'writeOnce' });
+ *
+ * this.ctx.set(CURRENT_USER, user);
+ * const locale = this.ctx.get(LOCALE); // string
+ * const user = this.ctx.get(CURRENT_USER); // User | undefined
+ * ```
+ */
+export function createContextKey<T>(
+  name: string,
+  options: ContextKeyOptions<T> & { default: T },
+): ContextKey<T, T>;
+export function createContextKey<T>(
+  name: string,
+  options?: ContextKeyOptions<T>,
+): ContextKey<T, undefined>;
+export function createContextKey<T>(
+  name: string,
+  options: ContextKeyOptions<T> = {},
+): ContextKey<T, T | undefined> {
+  if (name.startsWith('__')) {
+    throw new Error(`Context key "${name}" uses the "__" prefix reserved for internal keys.`);
+  }
+
+  const key = new ContextKey<T, T | undefined>(
+    name,
+    options.default,
+    options.description,
+    options.policy,
+  );
+  declaredKeys.set(name, [...(declaredKeys.get(name) ?? []), key]);
+  return key;
+}
+
+/**
+ * Checks if a value is a context key token
+ */
+export function isContextKey(value: unknown): value is ContextKey<any> {
+  return value instanceof ContextKey;
+}
+
+/**
+ * Resolves a string key or token to the store key
+ */
+export function resolveKeyName(key: string | ContextKey<any>): string {
+  return isContextKey(key) ? key.name : key;
+}
+
+/**
+ * Gets the write policy declared by the context key with the given name
+ */
+export function getDeclaredKeyPolicy(name: string): ContextWritePolicy | undefined {
+  return declaredKeys.get(name)?.find((key) => key.policy)?.policy;
+}
+
+/**
+ * Ensures that no two context keys share a name
+ * Called when the module boots
+ *
+ * @throws Error listing every colliding name
+ */
+export function assertUniqueContextKeys(): void {
+  const collisions = Array.from(declaredKeys.entries())
+    .filter(([, keys]) => keys.length > 1)
+    .map(([name, keys]) => {
+      const descriptions = keys.map((key) => key.description).filter(Boolean);
+      return descriptions.length
+        ? `"${name}" (${descriptions.join(', ')})`
+        : `"${name}" (declared ${keys.length} times)`;
+    });
+
+  if (collisions.length) {
+    throw new Error(
+      `Context key collision: ${collisions.join('; ')}. Each createContextKey() name must be unique.`,
+    );
+  }
+}
@@ -0,0 +1,9 @@
+export {
+  ContextKey,
+  ContextKeyOptions,
+  createContextKey,
+  isContextKey,
+  resolveKeyName,
+  getDeclaredKeyPolicy,
+  assertUniqueContextKeys,
+} from './context-key';
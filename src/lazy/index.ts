@@ -0,0 +1 @@
+export { LAZY_ENTRIES_KEY, LazyValues } from './lazy-values';
@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+
+describe('lazy and computed values', () => {
+  let ctx: RequestContextService;
+  let calls: number;
+
+  const loadUser = () => {
+    calls++;
+    return { id: calls };
+  };
+
+  beforeEach(() => {
+    calls = 0;
+    ctx = new RequestContextService({ computed: { tenant: () => 'acme' } });
+  });
+
+  it('resolves once per request', () => {
+    ctx.run(() => {
+      ctx.setLazy('user', loadUser);
+
+      expect(ctx.get('user')).toEqual({ id: 1 });
+      expect(ctx.get('user')).toEqual({ id: 1 });
+      expect(calls).toBe(1);
+    });
+  });
+
+  it('does not leave an unhandled rejection when get() starts a failing factory', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    await ctx.runAsync(async () => {
+      ctx.setLazy('user', async () => {
+        throw new Error('down');
+      });
+
+      expect(ctx.get('user')).toBeUndefined();
+      await new Promise((resolve) => setImmediate(resolve));
+      await expect(ctx.getAsync('user')).rejects.toThrow('down');
+    });
+
+    process.off('unhandledRejection', unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  describe('in child contexts', () => {
+    it('keeps the parent lazy value when a child overrides the key', () => {
+      ctx.run(() => {
+        ctx.setLazy('user', loadUser);
+
+        ctx.runChild(() => ctx.set('user', 'child'));
+
+        expect(ctx.get('user')).toEqual({ id: 1 });
+        expect(calls).toBe(1);
+      });
+    });
+
+    it('keeps lazy values registered in a child out of the parent', () => {
+      ctx.run(() => {
+        const child = ctx.fork();
+        child.run(() => ctx.setLazy('user', loadUser));
+
+        expect(ctx.has('user')).toBe(false);
+        expect(ctx.get('user')).toBeUndefined();
+        expect(child.run(() => ctx.get('user'))).toEqual({ id: 1 });
+      });
+    });
+
+    it('resolves a parent lazy value in the child without memoizing it in the parent', () => {
+      ctx.run(() => {
+        ctx.setLazy('user', loadUser);
+
+        expect(ctx.runChild(() => ctx.get('user'))).toEqual({ id: 1 });
+        expect(ctx.get('user')).toEqual({ id: 2 });
+      });
+    });
+  });
+
+  describe('delete and clear', () => {
+    it('drops a lazy value on delete', () => {
+      ctx.run(() => {
+        ctx.setLazy('user', loadUser);
+
+        expect(ctx.delete('user')).toBe(true);
+        expect(ctx.has('user')).toBe(false);
+        expect(ctx.get('user')).toBeUndefined();
+        expect(calls).toBe(0);
+      });
+    });
+
+    it('drops a computed value on delete', () => {
+      ctx.run(() => {
+        expect(ctx.get('tenant')).toBe('acme');
+
+        ctx.delete('tenant');
+
+        expect(ctx.has('tenant')).toBe(false);
+        expect(ctx.get('tenant')).toBeUndefined();
+      });
+    });
+
+    it.each([false, true])('drops lazy values on clear (force: %s)', (force) => {
+      ctx.run(() => {
+        ctx.setLazy('user', loadUser);
+        ctx.set('tenant', 'globex');
+
+        ctx.clear({ force });
+
+        expect(ctx.has('user')).toBe(false);
+        expect(ctx.get('user')).toBeUndefined();
+        expect(ctx.get('tenant')).toBe('acme');
+        expect(calls).toBe(0);
+      });
+    });
+  });
+});
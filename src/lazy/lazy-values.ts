@@ -0,0 +1,286 @@
+import type {
+  ComputedValueDefinition,
+  ContextValueFactory,
+  LazyValueOptions,
+} from '../interfaces';
+import type { RequestContextService } from '../request-context.service';
+import { ChildContextStore } from '../store';
+
+/**
+ * Store key holding the lazy entries of a context
+ */
+export const LAZY_ENTRIES_KEY = '__lazy__';
+
+/**
+ * A lazy value registered in one context
+ */
+interface LazyEntry {
+  factory: ContextValueFactory;
+  dependsOn: string[];
+  /** The pending resolution of an async factory */
+  promise?: Promise<any>;
+  /** Incremented on invalidation so stale async results are dropped */
+  version: number;
+}
+
+/**
+ * Lazy entries by key; null marks a key overridden by an explicit `set()` or deleted
+ */
+type LazyEntries = Map<string, LazyEntry | null>;
+
+/**
+ * Stores a resolved value the way `set()` would (validation, frozen keys)
+ *
+ * @returns The value as stored
+ */
+export type ResolvedValueWriter = (store: Map<string, any>, key: string, value: any) => any;
+
+function isPromiseLike(value: unknown): value is Promise<any> {
+  return !!value && typeof (value as any).then === 'function';
+}
+
+/**
+ * Resolves lazy and computed context values
+ * Resolved values are written into the store, so they are memoized per request
+ * and show up in getAll() once resolved
+ */
+export class LazyValues {
+  private readonly computed = new Map<string, ComputedValueDefinition>();
+
+  constructor(
+    private readonly write: ResolvedValueWriter,
+    computed: Record<string, ContextValueFactory | ComputedValueDefinition> = {},
+  ) {
+    Object.entries(computed).forEach(([key, definition]) => {
+      this.computed.set(
+        key,
+        typeof definition === 'function' ? { factory: definition } : definition,
+      );
+    });
+  }
+
+  /**
+   * Registers a lazy value in a store, replacing any value already set
+   */
+  register(
+    store: Map<string, any>,
+    key: string,
+    factory: ContextValueFactory,
+    options: LazyValueOptions = {},
+  ): void {
+    store.delete(key);
+    this.getEntries(store).set(key, {
+      factory,
+      dependsOn: options.dependsOn ?? [],
+      version: 0,
+    });
+  }
+
+  /**
+   * Whether the key has a lazy or computed value that is not resolved yet
+   */
+  has(store: Map<string, any>, key: string): boolean {
+    return !!this.getEntry(store, key);
+  }
+
+  /**
+   * Resolves a value synchronously
+   * Async factories are started and `undefined` is returned until they settle;
+   * their failures are left to the next access, which retries
+   *
+   * @returns `{ value }` when the key is lazy or computed, undefined otherwise
+   */
+  resolve(
+    store: Map<string, any>,
+    key: string,
+    contextService: RequestContextService,
+  ): { value: any } | undefined {
+    const entry = this.getEntry(store, key);
+    if (!entry) return undefined;
+    if (entry.promise) return { value: undefined };
+
+    const result = entry.factory(contextService);
+    if (isPromiseLike(result)) {
+      // Nobody awaits this resolution; the failure must not go unhandled
+      this.track(store, key, entry, result).catch(() => undefined);
+      return { value: undefined };
+    }
+
+    return { value: this.write(store, key, result) };
+  }
+
+  /**
+   * Resolves a value, waiting for async factories
+   *
+   * @returns A promise of `{ value }` when the key is lazy or computed, undefined otherwise
+   */
+  resolveAsync(
+    store: Map<string, any>,
+    key: string,
+    contextService: RequestContextService,
+  ): Promise<any> | undefined {
+    const entry = this.getEntry(store, key);
+    if (!entry) return undefined;
+    if (entry.promise) return entry.promise;
+
+    const result = entry.factory(contextService);
+    if (isPromiseLike(result)) {
+      return this.track(store, key, entry, result);
+    }
+
+    try {
+      return Promise.resolve(this.write(store, key, result));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Called when a key is set explicitly
+   * The explicit value replaces the lazy one, and values derived from the key are discarded
+   */
+  onSet(store: Map<string, any>, key: string): void {
+    const entries = this.findEntries(store);
+    if (entries?.get(key) || this.computed.has(key)) {
+      this.getEntries(store).set(key, null);
+    }
+    this.invalidateDependents(store, key);
+  }
+
+  /**
+   * Called when a key is deleted
+   * Values derived from the key are discarded
+   */
+  onDelete(store: Map<string, any>, key: string): void {
+    this.invalidateDependents(store, key);
+  }
+
+  /**
+   * Drops the lazy or computed value of a deleted key, so it is not produced again
+   *
+   * @returns true if the key had a lazy or computed value
+   */
+  remove(store: Map<string, any>, key: string): boolean {
+    const existed = !!this.getEntry(store, key, true);
+    if (existed) {
+      this.getEntries(store).set(key, null);
+    }
+    this.invalidateDependents(store, key);
+    return existed;
+  }
+
+  /**
+   * Forgets every lazy value of a store after it was cleared
+   * Keys registered with `setLazy()` are dropped; computed keys are produced afresh
+   */
+  reset(store: Map<string, any>): void {
+    store.set(LAZY_ENTRIES_KEY, new Map());
+  }
+
+  /**
+   * Discards the memoized values of every key that depends on `key`, transitively
+   */
+  private invalidateDependents(store: Map<string, any>, key: string, seen = new Set<string>()): void {
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    this.dependentsOf(store, key).forEach((dependent) => {
+      const entry = this.getEntry(store, dependent, true);
+      if (!entry) return;
+
+      entry.version++;
+      entry.promise = undefined;
+      store.delete(dependent);
+      this.invalidateDependents(store, dependent, seen);
+    });
+  }
+
+  private dependentsOf(store: Map<string, any>, key: string): string[] {
+    const dependents = new Set<string>();
+
+    this.findEntries(store)?.forEach((entry, name) => {
+      if (entry?.dependsOn.includes(key)) dependents.add(name);
+    });
+    this.computed.forEach((definition, name) => {
+      if (definition.dependsOn?.includes(key) && this.findEntries(store)?.get(name) !== null) {
+        dependents.add(name);
+      }
+    });
+
+    return Array.from(dependents);
+  }
+
+  /**
+   * Keeps track of a pending async resolution and stores its result
+   */
+  private track(
+    store: Map<string, any>,
+    key: string,
+    entry: LazyEntry,
+    result: Promise<any>,
+  ): Promise<any> {
+    const version = entry.version;
+
+    entry.promise = Promise.resolve(result).then(
+      (value) => {
+        if (entry.version !== version) return value;
+        entry.promise = undefined;
+        return this.write(store, key, value);
+      },
+      (error) => {
+        // Let the next access retry
+        if (entry.version === version) entry.promise = undefined;
+        throw error;
+      },
+    );
+
+    return entry.promise;
+  }
+
+  /**
+   * Gets the lazy entry for a key, creating it for computed keys
+   * Returns undefined once the value is resolved, unless `includeResolved` is set
+   */
+  private getEntry(
+    store: Map<string, any>,
+    key: string,
+    includeResolved = false,
+  ): LazyEntry | undefined {
+    if (!includeResolved && store.has(key)) return undefined;
+
+    const entries = this.getEntries(store);
+    if (entries.has(key)) return entries.get(key) ?? undefined;
+
+    const definition = this.computed.get(key);
+    if (!definition) return undefined;
+
+    const entry: LazyEntry = {
+      factory: definition.factory,
+      dependsOn: definition.dependsOn ?? [],
+      version: 0,
+    };
+    entries.set(key, entry);
+    return entry;
+  }
+
+  private findEntries(store: Map<string, any>): LazyEntries | undefined {
+    return store.get(LAZY_ENTRIES_KEY);
+  }
+
+  /**
+   * Gets the lazy entries of a store for writing
+   * A child context copies its parent's entries on first use, so that what it
+   * registers, resolves or invalidates stays in the child
+   */
+  private getEntries(store: Map<string, any>): LazyEntries {
+    const entries = this.findEntries(store);
+    if (entries && !(store instanceof ChildContextStore && !store.hasOwn(LAZY_ENTRIES_KEY))) {
+      return entries;
+    }
+
+    const own: LazyEntries = new Map();
+    entries?.forEach((entry, key) => own.set(key, entry && { ...entry }));
+    store.set(LAZY_ENTRIES_KEY, own);
+    return own;
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Observable, catchError, throwError } from 'rxjs';
+import { ContextLifecycleService } from './context-lifecycle.service';
+
+/**
+ * Interceptor that reports handler errors to the `onError` lifecycle hooks
+ * Registered globally when lifecycle hooks may be declared; runs after the
+ * context has been initialized so hooks see the request's values
+ */
+@Injectable()
+export class ContextLifecycleInterceptor implements NestInterceptor {
+  constructor(private readonly lifecycle: ContextLifecycleService) {}
+
+  intercept(_context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (!this.lifecycle.enabled) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      catchError((error) => {
+        this.lifecycle.reportError(error);
+        return throwError(() => error);
+      }),
+    );
+  }
+}
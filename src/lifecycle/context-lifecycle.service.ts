@@ -0,0 +1,184 @@
+import { Injectable, Inject, Optional, OnModuleInit, Logger, Type } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { performance } from 'perf_hooks';
+import { RequestContextService } from '../request-context.service';
+import {
+  ContextEndInfo,
+  ContextLifecycle,
+  ContextSetupInfo,
+  RequestContextModuleOptions,
+} from '../interfaces';
+import { REQUEST_CONTEXT_MODULE_OPTIONS } from '../constants';
+import { getRawResponse, onResponseEnd } from '../utils';
+
+/**
+ * Store key holding the lifecycle state of the context
+ */
+export const LIFECYCLE_STATE_KEY = '__lifecycle__';
+
+interface LifecycleState {
+  type: ContextSetupInfo['type'];
+  startedAt: number;
+  /** The raw response whose end closes the context, if any */
+  response?: any;
+  error?: unknown;
+  ended: boolean;
+}
+
+/**
+ * Calls the `onStart`, `onEnd` and `onError` hooks declared in the `lifecycle` option
+ * The middleware, guard and interceptor report to it; it does nothing when no hooks are declared.
+ */
+@Injectable()
+export class ContextLifecycleService implements OnModuleInit {
+  private readonly logger = new Logger('RequestContext');
+  private hooks: ContextLifecycle[] = [];
+
+  constructor(
+    private readonly contextService: RequestContextService,
+    private readonly moduleRef: ModuleRef,
+    @Optional()
+    @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
+    private readonly options?: RequestContextModuleOptions,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const declared = this.options?.lifecycle ?? [];
+    this.hooks = await Promise.all(declared.map((hook) => this.resolveHook(hook)));
+  }
+
+  /**
+   * Whether any lifecycle hook is declared
+   */
+  get enabled(): boolean {
+    return this.hooks.length > 0;
+  }
+
+  /**
+   * Starts tracking the current context
+   * Call right after the context is opened; `onEnd` fires when the response ends,
+   * or on `end()` when there is no response
+   *
+   * @param response - The response object, if the transport has one
+   * @param info - The kind of execution that opened the context
+   */
+  track(response: any, info: ContextSetupInfo): void {
+    if (!this.enabled || !this.contextService.isActive()) return;
+
+    const state: LifecycleState = {
+      type: info.type,
+      startedAt: performance.now(),
+      response: getRawResponse(response),
+      ended: false,
+    };
+    this.contextService.set(LIFECYCLE_STATE_KEY as any, state);
+
+    if (state.response) {
+      onResponseEnd(state.response, (aborted) => void this.finish(state, aborted));
+    }
+  }
+
+  /**
+   * Runs the `onStart` hooks in declaration order
+   * Call once `setup` has finished
+   *
+   * @returns A promise when a hook is async
+   */
+  start(request: any, info: ContextSetupInfo): void | Promise<void> {
+    if (!this.enabled) return;
+    return this.runOnStart(0, request, info);
+  }
+
+  /**
+   * Ends a context that has no response (rpc, ws, GraphQL subscriptions)
+   * Contexts tracking a response end when it does
+   */
+  end(): void {
+    const state = this.getState();
+    if (!state || state.response) return;
+    void this.finish(state, false);
+  }
+
+  /**
+   * Reports a failed initialization or handler to the `onError` hooks
+   * Each error is reported once per context and passed on to `onEnd`
+   */
+  reportError(error: unknown): void {
+    if (!this.enabled) return;
+
+    const state = this.getState();
+    if (state) {
+      if (state.error === error) return;
+      state.error = error;
+    }
+
+    this.hooks.forEach((hook) => {
+      if (!hook.onError) return;
+      this.guard(hook, 'onError', () => hook.onError!(error, this.contextService));
+    });
+  }
+
+  private runOnStart(index: number, request: any, info: ContextSetupInfo): void | Promise<void> {
+    for (let i = index; i < this.hooks.length; i++) {
+      const result = this.hooks[i].onStart?.(this.contextService, request, info);
+      if (result instanceof Promise) {
+        return result.then(() => this.runOnStart(i + 1, request, info));
+      }
+    }
+  }
+
+  private async finish(state: LifecycleState, aborted: boolean): Promise<void> {
+    if (state.ended) return;
+    state.ended = true;
+
+    const info: ContextEndInfo = {
+      type: state.type,
+      values: this.contextService.getAll(),
+      statusCode: state.response?.statusCode,
+      durationMs: performance.now() - state.startedAt,
+      aborted,
+      error: state.error,
+    };
+
+    for (const hook of this.hooks) {
+      if (hook.onEnd) {
+        await this.guard(hook, 'onEnd', () => hook.onEnd!(this.contextService, info));
+      }
+    }
+  }
+
+  /**
+   * Runs a hook, logging instead of throwing when it fails
+   */
+  private async guard(hook: ContextLifecycle, name: string, call: () => unknown): Promise<void> {
+    try {
+      await call();
+    } catch (error) {
+      const owner = hook.constructor?.name ?? 'Object';
+      this.logger.error(
+        `Lifecycle hook ${owner}.${name} failed: ${(error as Error)?.message ?? error}`,
+        (error as Error)?.stack,
+      );
+    }
+  }
+
+  private getState(): LifecycleState | undefined {
+    return this.contextService.get(LIFECYCLE_STATE_KEY as any);
+  }
+
+  /**
+   * Gets the instance of a hook class from the application's providers,
+   * or creates one when it isn't registered
+   */
+  private async resolveHook(
+    hook: ContextLifecycle | Type<ContextLifecycle>,
+  ): Promise<ContextLifecycle> {
+    if (typeof hook !== 'function') return hook;
+
+    try {
+      return this.moduleRef.get(hook, { strict: false });
+    } catch {
+      return this.moduleRef.create(hook);
+    }
+  }
+}
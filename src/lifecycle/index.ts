@@ -0,0 +1,2 @@
+export { LIFECYCLE_STATE_KEY, ContextLifecycleService } from './context-lifecycle.service';
+export { ContextLifecycleInterceptor } from './context-lifecycle.interceptor';
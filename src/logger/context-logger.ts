@@ -0,0 +1,92 @@
+import { ConsoleLogger, Inject, Injectable, LogLevel, LoggerService, Optional } from '@nestjs/common';
+import { RequestContextService } from '../request-context.service';
+import { ContextLoggerOptions, RequestContextModuleOptions } from '../interfaces';
+import { REQUEST_CONTEXT_MODULE_OPTIONS } from '../constants';
+import { collectLogFields } from './log-fields';
+
+/**
+ * Nest LoggerService that enriches every message with context fields
+ * (requestId, userId, tenantId, route, ...) before forwarding it to a base logger
+ *
+ * String messages are prefixed with `key=value` pairs; object messages get the
+ * fields merged in (message properties win). Error instances are forwarded
+ * unchanged so the base logger can still print their stack.
+ *
+ * @example
+ * ```typescript
+ * const app = await NestFactory.create(AppModule, { bufferLogs: true });
+ * app.useLogger(app.get(ContextLogger));
+ *
+ * // [requestId=4f1c... userId=42 route=GET /orders] Loading orders
+ * ```
+ */
+@Injectable()
+export class ContextLogger implements LoggerService {
+  private readonly options: ContextLoggerOptions;
+  private readonly baseLogger: LoggerService;
+
+  constructor(
+    private readonly contextService: RequestContextService,
+    @Optional()
+    @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
+    moduleOptions?: RequestContextModuleOptions,
+  ) {
+    this.options = moduleOptions?.logger ?? {};
+    this.baseLogger = this.options.baseLogger ?? new ConsoleLogger();
+  }
+
+  log(message: any, ...optionalParams: any[]): any {
+    return this.baseLogger.log(this.enrich(message), ...optionalParams);
+  }
+
+  error(message: any, ...optionalParams: any[]): any {
+    return this.baseLogger.error(this.enrich(message), ...optionalParams);
+  }
+
+  warn(message: any, ...optionalParams: any[]): any {
+    return this.baseLogger.warn(this.enrich(message), ...optionalParams);
+  }
+
+  debug(message: any, ...optionalParams: any[]): any {
+    return this.baseLogger.debug?.(this.enrich(message), ...optionalParams);
+  }
+
+  verbose(message: any, ...optionalParams: any[]): any {
+    return this.baseLogger.verbose?.(this.enrich(message), ...optionalParams);
+  }
+
+  fatal(message: any, ...optionalParams: any[]): any {
+    const enriched = this.enrich(message);
+    return this.baseLogger.fatal
+      ? this.baseLogger.fatal(enriched, ...optionalParams)
+      : this.baseLogger.error(enriched, ...optionalParams);
+  }
+
+  setLogLevels(levels: LogLevel[]): any {
+    return this.baseLogger.setLogLevels?.(levels);
+  }
+
+  /**
+   * Gets the context fields for the current log line
+   */
+  getContextFields(): Record<string, any> {
+    return collectLogFields(this.contextService, this.options);
+  }
+
+  private enrich(message: any): any {
+    if (message instanceof Error) return message;
+
+    const fields = this.getContextFields();
+    if (Object.keys(fields).length === 0) return message;
+
+    if (message !== null && typeof message === 'object') {
+      return { ...fields, ...message };
+    }
+
+    const prefix = Object.entries(fields)
+      .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`)
+      .join(' ');
+
+    return `[${prefix}] ${message}`;
+  }
+}
@@ -0,0 +1,3 @@
+export { ContextLogger } from './context-logger';
+export { collectLogFields } from './log-fields';
+export { createPinoMixin, createWinstonFormat } from './logger-mixins';
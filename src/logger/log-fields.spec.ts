@@ -0,0 +1,44 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { collectLogFields } from './log-fields';
+
+describe('collectLogFields', () => {
+  let ctx: RequestContextService;
+  let loads: number;
+
+  const fields = { requestId: 'requestId', 'user.id': 'userId', tenant: 'tenant' };
+
+  beforeEach(() => {
+    loads = 0;
+    ctx = new RequestContextService({ computed: { tenant: () => 'acme' } });
+  });
+
+  it('maps nested paths to field names', () => {
+    const collected = ctx.run(() => collectLogFields(ctx, { fields }), {
+      requestId: 'req-1',
+      user: { id: 42 },
+    });
+
+    expect(collected).toEqual({ requestId: 'req-1', userId: 42 });
+  });
+
+  it('never runs lazy or computed factories', () => {
+    ctx.run(() => {
+      ctx.setLazy('user', () => {
+        loads++;
+        return { id: 42 };
+      });
+
+      expect(collectLogFields(ctx, { fields })).toEqual({});
+      expect(loads).toBe(0);
+
+      ctx.get('user');
+      ctx.get('tenant');
+      expect(collectLogFields(ctx, { fields })).toEqual({ userId: 42, tenant: 'acme' });
+    });
+  });
+
+  it('returns no fields outside a context', () => {
+    expect(collectLogFields(ctx, { fields })).toEqual({});
+  });
+});
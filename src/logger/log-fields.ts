@@ -0,0 +1,66 @@
+import { RequestContextService } from '../request-context.service';
+import { ContextLoggerOptions } from '../interfaces';
+
+const DEFAULT_FIELDS = ['requestId', 'userId', 'tenantId'];
+
+/**
+ * Reads a dot-notation path from the given values
+ */
+function readPath(values: Record<string, any>, path: string): unknown {
+  const parts = path.split('.');
+  let current: any = values[parts[0]];
+
+  for (let i = 1; i < parts.length && current !== undefined && current !== null; i++) {
+    current = current[parts[i]];
+  }
+
+  return current;
+}
+
+/**
+ * Collects the log fields for the current context
+ * Returns an empty object outside a context so loggers work during bootstrap
+ * Only values already in the store are read: logging never runs lazy or computed factories
+ *
+ * @param contextService - The context service
+ * @param options - Logger options
+ * @returns Field names mapped to their values (undefined values are omitted)
+ */
+export function collectLogFields(
+  contextService: RequestContextService,
+  options: ContextLoggerOptions = {},
+): Record<string, any> {
+  const fields: Record<string, any> = {};
+  if (!contextService.isActive()) return fields;
+
+  const mapping = options.fields ?? DEFAULT_FIELDS;
+  const entries = Array.isArray(mapping)
+    ? mapping.map((path): [string, string] => [path, path])
+    : Object.entries(mapping);
+
+  const values: Record<string, any> = contextService.getAll();
+
+  for (const [path, name] of entries) {
+    const value = readPath(values, path);
+    if (value !== undefined) {
+      fields[name] = value;
+    }
+  }
+
+  if (options.includeRoute !== false) {
+    const adapter = contextService.getAdapter();
+    const request = contextService.getRequest();
+    if (adapter && request) {
+      fields.route = `${adapter.getMethod(request)} ${adapter.getPath(request)}`;
+    }
+  }
+
+  if (options.includeTrace) {
+    const traceId = contextService.getTraceId();
+    const spanId = contextService.getSpanId();
+    if (traceId) fields.traceId = traceId;
+    if (spanId) fields.spanId = spanId;
+  }
+
+  return fields;
+}
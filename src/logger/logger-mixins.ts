@@ -0,0 +1,73 @@
+import { RequestContextService } from '../request-context.service';
+import { ContextLoggerOptions } from '../interfaces';
+import { collectLogFields } from './log-fields';
+
+/**
+ * Resolves the service lazily so mixins can be created before the app boots
+ */
+function resolveFields(
+  contextService: RequestContextService | undefined,
+  options: ContextLoggerOptions,
+): Record<string, any> {
+  if (contextService) {
+    return collectLogFields(contextService, options);
+  }
+
+  if (!RequestContextService.hasInstance()) return {};
+  return collectLogFields(RequestContextService.getInstance(), options);
+}
+
+/**
+ * Creates a pino `mixin` that adds context fields to every log record
+ *
+ * @param options - Logger options (fields, route, trace)
+ * @param contextService - Optional service instance; the global instance is used otherwise
+ * @returns A function to pass as pino's `mixin` option
+ *
+ * @example
+ * ```typescript
+ * const logger = pino({ mixin: createPinoMixin({ fields: ['requestId', 'tenantId'] }) });
+ *
+ * // nestjs-pino
+ * LoggerModule.forRoot({ pinoHttp: { mixin: createPinoMixin() } });
+ * ```
+ */
+export function createPinoMixin(
+  options: ContextLoggerOptions = {},
+  contextService?: RequestContextService,
+): () => Record<string, any> {
+  return () => resolveFields(contextService, options);
+}
+
+/**
+ * Creates a winston format that adds context fields to every log record
+ * Fields already present on the record are kept
+ *
+ * @param options - Logger options (fields, route, trace)
+ * @param contextService - Optional service instance; the global instance is used otherwise
+ * @returns A winston-compatible format object
+ *
+ * @example
+ * ```typescript
+ * const logger = winston.createLogger({
+ *   format: winston.format.combine(createWinstonFormat(), winston.format.json()),
+ *   transports: [new winston.transports.Console()],
+ * });
+ * ```
+ */
+export function createWinstonFormat(
+  options: ContextLoggerOptions = {},
+  contextService?: RequestContextService,
+): { transform: (info: Record<string, any>) => Record<string, any> } {
+  return {
+    transform: (info) => {
+      const fields = resolveFields(contextService, options);
+      for (const [key, value] of Object.entries(fields)) {
+        if (info[key] === undefined) {
+          info[key] = value;
+        }
+      }
+      return info;
+    },
+  };
+}
@@ -3,6 +3,8 @@ import { Request, Response, NextFunction } from 'express';
 import { RequestContextService } from '../request-context.service';
 import { RequestContextModuleOptions } from '../interfaces';
 import { REQUEST_CONTEXT_MODULE_OPTIONS } from '../constants';
+import { applyContextFeatures } from '../request-context.features';
+import { ContextLifecycleService } from '../lifecycle';
 
 /**
  * Express middleware for initializing request context
@@ -15,29 +17,61 @@ export class ExpressContextMiddleware implements NestMiddleware {
     @Optional()
     @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
     private readonly options?: RequestContextModuleOptions,
+    @Optional() private readonly lifecycle?: ContextLifecycleService,
   ) {}
 
   use(req: Request, res: Response, next: NextFunction): void {
     this.contextService.run(() => {
+      this.lifecycle?.track(res, { type: 'http' });
+
       // Set the request object in context if enabled
       if (this.options?.setRequest !== false) {
         this.contextService.setRequest(req, this.options?.adapter ?? 'auto');
       }
 
+      // Apply built-in features before setup so their values can be read there
+      applyContextFeatures(
+        this.contextService,
+        req,
+        res,
+        this.options?.adapter ?? 'auto',
+        this.options,
+      );
+
       // Call custom setup function if provided
       if (this.options?.setup) {
-        const result = this.options.setup(this.contextService, req);
+        const result = this.options.setup(this.contextService, req, { type: 'http' });
 
         // Handle async setup
         if (result instanceof Promise) {
           result
-            .then(() => next())
-            .catch((err) => next(err));
+            .then(() => this.start(req, next))
+            .catch((err) => this.fail(err, next));
           return;
         }
       }
 
-      next();
+      this.start(req, next);
     });
   }
+
+  /**
+   * Completes setup and runs the `onStart` lifecycle hooks before continuing
+   */
+  private start(req: Request, next: (error?: any) => void): void {
+    this.contextService.completeSetup();
+
+    const started = this.lifecycle?.start(req, { type: 'http' });
+    if (started) {
+      started.then(() => next()).catch((err) => this.fail(err, next));
+      return;
+    }
+
+    next();
+  }
+
+  private fail(error: unknown, next: (error?: any) => void): void {
+    this.lifecycle?.reportError(error);
+    next(error);
+  }
 }
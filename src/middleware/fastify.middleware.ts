@@ -3,6 +3,8 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { RequestContextService } from '../request-context.service';
 import { RequestContextModuleOptions } from '../interfaces';
 import { REQUEST_CONTEXT_MODULE_OPTIONS } from '../constants';
+import { applyContextFeatures } from '../request-context.features';
+import { ContextLifecycleService } from '../lifecycle';
 
 /**
  * Fastify middleware for initializing request context
@@ -18,31 +20,63 @@ export class FastifyContextMiddleware implements NestMiddleware {
     @Optional()
     @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
     private readonly options?: RequestContextModuleOptions,
+    @Optional() private readonly lifecycle?: ContextLifecycleService,
   ) {}
 
   use(req: FastifyRequest, res: FastifyReply, next: (error?: any) => void): void {
     this.contextService.run(() => {
+      this.lifecycle?.track(res, { type: 'http' });
+
       // Set the request object in context if enabled
       if (this.options?.setRequest !== false) {
         this.contextService.setRequest(req, this.options?.adapter ?? 'auto');
       }
 
+      // Apply built-in features before setup so their values can be read there
+      applyContextFeatures(
+        this.contextService,
+        req,
+        res,
+        this.options?.adapter ?? 'auto',
+        this.options,
+      );
+
       // Call custom setup function if provided
       if (this.options?.setup) {
-        const result = this.options.setup(this.contextService, req);
+        const result = this.options.setup(this.contextService, req, { type: 'http' });
 
         // Handle async setup
         if (result instanceof Promise) {
           result
-            .then(() => next())
-            .catch((err) => next(err));
+            .then(() => this.start(req, next))
+            .catch((err) => this.fail(err, next));
           return;
         }
       }
 
-      next();
+      this.start(req, next);
     });
   }
+
+  /**
+   * Completes setup and runs the `onStart` lifecycle hooks before continuing
+   */
+  private start(req: FastifyRequest, next: (error?: any) => void): void {
+    this.contextService.completeSetup();
+
+    const started = this.lifecycle?.start(req, { type: 'http' });
+    if (started) {
+      started.then(() => next()).catch((err) => this.fail(err, next));
+      return;
+    }
+
+    next();
+  }
+
+  private fail(error: unknown, next: (error?: any) => void): void {
+    this.lifecycle?.reportError(error);
+    next(error);
+  }
 }
 
 /**
@@ -51,28 +85,37 @@ export class FastifyContextMiddleware implements NestMiddleware {
  *
  * @param contextService - The RequestContextService instance
  * @param options - Module options
+ * @param lifecycle - Runs the lifecycle hooks (`app.get(ContextLifecycleService)`)
  * @returns A Fastify preHandler hook function
  */
 export function createFastifyContextHook(
   contextService: RequestContextService,
   options?: RequestContextModuleOptions,
+  lifecycle?: ContextLifecycleService,
 ) {
-  return async (req: FastifyRequest, _reply: FastifyReply): Promise<void> => {
+  return async (req: FastifyRequest, reply: FastifyReply): Promise<void> => {
     return new Promise((resolve, reject) => {
       contextService.run(async () => {
         try {
+          lifecycle?.track(reply, { type: 'http' });
+
           // Set the request object in context if enabled
           if (options?.setRequest !== false) {
             contextService.setRequest(req, options?.adapter ?? 'auto');
           }
 
+          applyContextFeatures(contextService, req, reply, options?.adapter ?? 'auto', options);
+
           // Call custom setup function if provided
           if (options?.setup) {
-            await options.setup(contextService, req);
+            await options.setup(contextService, req, { type: 'http' });
           }
 
+          contextService.completeSetup();
+          await lifecycle?.start(req, { type: 'http' });
           resolve();
         } catch (error) {
+          lifecycle?.reportError(error);
           reject(error);
         }
       });
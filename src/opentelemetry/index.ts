@@ -0,0 +1,2 @@
+export { OpenTelemetryBridge } from './opentelemetry.bridge';
+export { OpenTelemetryContextInterceptor } from './opentelemetry.interceptor';
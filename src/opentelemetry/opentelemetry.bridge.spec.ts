@@ -0,0 +1,148 @@
+import 'reflect-metadata';
+import { context, propagation, trace, Span } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { RequestContextService } from '../request-context.service';
+import { RequestContextModuleOptions } from '../interfaces';
+import { OpenTelemetryBridge } from './opentelemetry.bridge';
+
+describe('OpenTelemetryBridge', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const tracer = provider.getTracer('request-context');
+
+  let ctx: RequestContextService;
+  let bridge: OpenTelemetryBridge;
+
+  const options: RequestContextModuleOptions = {
+    openTelemetry: {
+      spanAttributes: { tenantId: 'app.tenant_id', user: 'enduser.id' },
+      baggage: ['tenantId'],
+    },
+  };
+
+  const inRequest = <T>(callback: () => T): T =>
+    ctx.run(callback, { tenantId: 'acme', user: { id: 42 } });
+
+  const inSpan = <T>(callback: (span: Span) => T): T =>
+    tracer.startActiveSpan('handler', (span) => {
+      try {
+        return callback(span);
+      } finally {
+        span.end();
+      }
+    });
+
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    ctx = new RequestContextService(options);
+    bridge = new OpenTelemetryBridge(ctx, options);
+    bridge.onModuleInit();
+  });
+
+  afterEach(() => {
+    bridge.onModuleDestroy();
+  });
+
+  describe('syncSpan', () => {
+    it('copies the mapped context keys onto the active span', () => {
+      const synced = inRequest(() => inSpan(() => bridge.syncSpan()));
+
+      const [span] = exporter.getFinishedSpans();
+      expect(synced).toBe(true);
+      expect(span.attributes).toEqual({
+        'app.tenant_id': 'acme',
+        'enduser.id': JSON.stringify({ id: 42 }),
+      });
+    });
+
+    it('returns false without an active span', () => {
+      expect(inRequest(() => bridge.syncSpan())).toBe(false);
+    });
+  });
+
+  describe('run', () => {
+    it('puts the configured keys in baggage and syncs the active span', () => {
+      const baggage = inRequest(() =>
+        inSpan(() => bridge.run(() => propagation.getBaggage(context.active()))),
+      );
+
+      expect(baggage?.getEntry('tenantId')?.value).toBe('acme');
+      expect(baggage?.getEntry('user')).toBeUndefined();
+      expect(exporter.getFinishedSpans()[0].attributes['app.tenant_id']).toBe('acme');
+    });
+
+    it('keeps the baggage across async work', async () => {
+      const baggage = await inRequest(() =>
+        bridge.run(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return propagation.getBaggage(context.active());
+        }),
+      );
+
+      expect(baggage?.getEntry('tenantId')?.value).toBe('acme');
+    });
+
+    it('leaves the OpenTelemetry context alone outside a request context', () => {
+      const baggage = bridge.run(() => propagation.getBaggage(context.active()));
+
+      expect(baggage).toBeUndefined();
+    });
+  });
+
+  describe('getTraceId / getSpanId', () => {
+    it('return the IDs of the active span', () => {
+      const { ids, spanContext } = inRequest(() =>
+        inSpan((span) => ({
+          ids: { traceId: ctx.getTraceId(), spanId: ctx.getSpanId() },
+          spanContext: span.spanContext(),
+        })),
+      );
+
+      expect(ids).toEqual({ traceId: spanContext.traceId, spanId: spanContext.spanId });
+    });
+
+    it('fall back to the parsed trace value without an active span', () => {
+      const parsed = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16) };
+
+      const ids = inRequest(() => {
+        ctx.set('trace', parsed);
+        return { traceId: ctx.getTraceId(), spanId: ctx.getSpanId() };
+      });
+
+      expect(ids).toEqual(parsed);
+    });
+
+    it('stop reading the active span once the bridge is destroyed', () => {
+      bridge.onModuleDestroy();
+
+      const traceId = inRequest(() => inSpan(() => ctx.getTraceId()));
+
+      expect(traceId).toBeUndefined();
+    });
+  });
+
+  it('leaves the active span alone when the option is off', () => {
+    const disabled = new OpenTelemetryBridge(ctx, {});
+    disabled.onModuleInit();
+
+    const result = inRequest(() => inSpan(() => disabled.run(() => trace.getActiveSpan())));
+
+    expect(result).toBeDefined();
+    expect(exporter.getFinishedSpans()[0].attributes).toEqual({});
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  Injectable,
+  Inject,
+  Optional,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { loadOptionalPackage } from '../utils/load-package.util';
+import type * as OpenTelemetryApi from '@opentelemetry/api';
+import { RequestContextService } from '../request-context.service';
+import {
+  ContextKeyMapping,
+  OpenTelemetryOptions,
+  RequestContextModuleOptions,
+} from '../interfaces';
+import { REQUEST_CONTEXT_MODULE_OPTIONS } from '../constants';
+
+/**
+ * Converts a key mapping into [contextKey, targetName] pairs
+ */
+function toEntries(mapping: ContextKeyMapping | undefined): [string, string][] {
+  if (!mapping) return [];
+  return Array.isArray(mapping) ? mapping.map((key) => [key, key]) : Object.entries(mapping);
+}
+
+/**
+ * Converts a context value into a span attribute or baggage value
+ */
+function toAttributeValue(value: any): string | number | boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Bridges the request context with OpenTelemetry
+ * OpenTelemetry keeps its own AsyncLocalStorage; this service mirrors selected
+ * context values onto the active span and OTel baggage, and exposes the active
+ * span's IDs through RequestContextService.getTraceId()/getSpanId()
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class OrdersService {
+ *   constructor(
+ *     private readonly ctx: RequestContextService,
+ *     private readonly otel: OpenTelemetryBridge,
+ *   ) {}
+ *
+ *   assignTenant(tenantId: string) {
+ *     this.ctx.set('tenantId', tenantId);
+ *     this.otel.syncSpan(); // mirror values set after the handler started
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class OpenTelemetryBridge implements OnModuleInit, OnModuleDestroy {
+  private readonly options?: OpenTelemetryOptions;
+  private api?: typeof OpenTelemetryApi;
+
+  constructor(
+    private readonly contextService: RequestContextService,
+    @Optional()
+    @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
+    moduleOptions?: RequestContextModuleOptions,
+  ) {
+    this.options = moduleOptions?.openTelemetry;
+  }
+
+  /**
+   * Loads @opentelemetry/api and registers the active span resolver
+   */
+  onModuleInit(): void {
+    if (!this.options) return;
+
+    const api = this.loadApi();
+    this.contextService.setSpanContextResolver(() => {
+      const spanContext = api.trace.getActiveSpan()?.spanContext();
+      if (!spanContext || !api.isSpanContextValid(spanContext)) return undefined;
+      return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+    });
+  }
+
+  /**
+   * Unregisters the active span resolver
+   */
+  onModuleDestroy(): void {
+    if (this.api) {
+      this.contextService.setSpanContextResolver(undefined);
+    }
+  }
+
+  /**
+   * Copies the configured context keys onto the active span as attributes
+   *
+   * @returns true if an active span was updated
+   */
+  syncSpan(): boolean {
+    const span = this.loadApi().trace.getActiveSpan();
+    if (!span) return false;
+
+    for (const [key, attribute] of toEntries(this.options?.spanAttributes)) {
+      const value = toAttributeValue(this.contextService.get(key));
+      if (value !== undefined) {
+        span.setAttribute(attribute, value);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Builds an OpenTelemetry context whose baggage carries the configured context keys
+   *
+   * @param parent - The context to extend (defaults to the active context)
+   * @returns The extended context
+   */
+  createBaggageContext(parent?: OpenTelemetryApi.Context): OpenTelemetryApi.Context {
+    const api = this.loadApi();
+    const activeContext = parent ?? api.context.active();
+    const entries = toEntries(this.options?.baggage);
+
+    if (entries.length === 0) return activeContext;
+
+    let baggage = api.propagation.getBaggage(activeContext) ?? api.propagation.createBaggage();
+    for (const [key, name] of entries) {
+      const value = toAttributeValue(this.contextService.get(key));
+      if (value !== undefined) {
+        baggage = baggage.setEntry(name, { value: String(value) });
+      }
+    }
+
+    return api.propagation.setBaggage(activeContext, baggage);
+  }
+
+  /**
+   * Runs a callback with the configured context keys in OpenTelemetry baggage
+   * The active span is synchronized first
+   *
+   * @param callback - The function to run
+   * @returns The return value of the callback
+   */
+  run<T>(callback: () => T): T {
+    if (!this.options || !this.contextService.isActive()) {
+      return callback();
+    }
+
+    this.syncSpan();
+    return this.loadApi().context.with(this.createBaggageContext(), callback);
+  }
+
+  private loadApi(): typeof OpenTelemetryApi {
+    if (!this.api) {
+      this.api = loadOptionalPackage('@opentelemetry/api', 'OpenTelemetryBridge');
+    }
+    return this.api!;
+  }
+}
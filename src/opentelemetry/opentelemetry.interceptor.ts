@@ -0,0 +1,27 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { OpenTelemetryBridge } from './opentelemetry.bridge';
+
+/**
+ * Interceptor that mirrors context values onto OpenTelemetry before each handler
+ * Registered globally when the `openTelemetry` option is set; runs after the
+ * context has been initialized so values from `setup` are included
+ */
+@Injectable()
+export class OpenTelemetryContextInterceptor implements NestInterceptor {
+  constructor(private readonly bridge: OpenTelemetryBridge) {}
+
+  intercept(_context: ExecutionContext, next: CallHandler): Observable<any> {
+    return new Observable((subscriber) => {
+      const subscription = this.bridge.run(() =>
+        next.handle().subscribe({
+          next: (value) => subscriber.next(value),
+          error: (err) => subscriber.error(err),
+          complete: () => subscriber.complete(),
+        }),
+      );
+
+      return () => subscription.unsubscribe();
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { ContextWriteError } from './context-write.error';
+import { deepFreeze } from './context-write-policies';
+
+describe('write policies', () => {
+  let ctx: RequestContextService;
+
+  beforeEach(() => {
+    ctx = new RequestContextService({
+      policies: { tenantId: 'writeOnce', user: 'readonly-after-setup', permissions: 'frozen' },
+    });
+  });
+
+  it('rejects a second write to a writeOnce key', () => {
+    ctx.run(() => {
+      ctx.set('tenantId', 'acme');
+
+      expect(() => ctx.set('tenantId', 'globex')).toThrow(ContextWriteError);
+      expect(() => ctx.delete('tenantId')).toThrow(ContextWriteError);
+    });
+  });
+
+  it('locks readonly-after-setup keys when setup completes', () => {
+    ctx.run(() => {
+      ctx.set('user', { id: 1 });
+      ctx.set('user', { id: 2 });
+      ctx.completeSetup();
+
+      expect(() => ctx.set('user', { id: 3 })).toThrow(ContextWriteError);
+      expect(ctx.get('user')).toEqual({ id: 2 });
+    });
+  });
+
+  it('deep-freezes frozen values', () => {
+    ctx.run(() => {
+      ctx.set('permissions', { roles: ['admin'] });
+
+      expect(Object.isFrozen(ctx.get('permissions').roles)).toBe(true);
+    });
+  });
+
+  it('keeps locked keys on clear unless forced', () => {
+    ctx.run(() => {
+      ctx.set('tenantId', 'acme');
+      ctx.set('note', 'draft');
+
+      ctx.clear();
+      expect(ctx.getAll()).toEqual({ tenantId: 'acme' });
+
+      ctx.clear({ force: true });
+      expect(ctx.getAll()).toEqual({});
+    });
+  });
+
+  describe('deepFreeze', () => {
+    it('leaves Buffers and typed arrays writable', () => {
+      const value = { payload: Buffer.from('abc'), samples: new Float64Array([1, 2]) };
+
+      deepFreeze(value);
+
+      expect(Object.isFrozen(value)).toBe(true);
+      value.payload[0] = 0x78;
+      expect(value.payload.toString()).toBe('xbc');
+    });
+
+    it('handles cycles', () => {
+      const value: any = { name: 'node' };
+      value.self = value;
+
+      expect(deepFreeze(value)).toBe(value);
+      expect(Object.isFrozen(value)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import type { ContextWritePolicy } from '../interfaces';
+import { getDeclaredKeyPolicy } from '../keys';
+import { ContextWriteError } from './context-write.error';
+
+/**
+ * Store key that marks the end of `setup`
+ */
+export const SETUP_COMPLETE_KEY = '__setup_complete__';
+
+/**
+ * Recursively freezes an object and everything reachable from it
+ * Already frozen objects are still walked, since their children may not be
+ * Map and Set contents are not protected by Object.freeze, and ArrayBuffer views
+ * (Buffers, typed arrays) are skipped since freezing one with elements throws
+ *
+ * @param value - The value to freeze
+ * @returns The same value
+ */
+export function deepFreeze<T>(value: T): T {
+  freezeGraph(value, new WeakSet());
+  return value;
+}
+
+function freezeGraph(value: unknown, seen: WeakSet<object>): void {
+  if (value === null || typeof value !== 'object' || seen.has(value)) return;
+  if (ArrayBuffer.isView(value)) return;
+
+  seen.add(value);
+  Object.freeze(value);
+  Reflect.ownKeys(value).forEach((key) => {
+    freezeGraph((value as any)[key], seen);
+  });
+}
+
+/**
+ * Resolves and enforces the write policies of context keys
+ * Policies from the module options take precedence over those declared on typed keys
+ */
+export class ContextWritePolicies {
+  constructor(private readonly policies: Record<string, ContextWritePolicy> = {}) {}
+
+  /**
+   * Gets the policy of a key
+   */
+  get(key: string): ContextWritePolicy | undefined {
+    return this.policies[key] ?? getDeclaredKeyPolicy(key);
+  }
+
+  /**
+   * Whether the key can no longer be written or deleted in the given store
+   */
+  isLocked(store: Map<string, any>, key: string): boolean {
+    const policy = this.get(key);
+    if (!policy) return false;
+
+    return policy === 'readonly-after-setup'
+      ? store.get(SETUP_COMPLETE_KEY) === true
+      : store.has(key);
+  }
+
+  /**
+   * Throws if the operation is not allowed for the key
+   *
+   * @throws ContextWriteError
+   */
+  assertWritable(store: Map<string, any>, key: string, operation: 'set' | 'delete'): void {
+    if (this.isLocked(store, key)) {
+      throw new ContextWriteError(key, this.get(key)!, operation);
+    }
+  }
+
+  /**
+   * Prepares a value for storage (deep-freezes values of frozen keys)
+   */
+  prepare<T>(key: string, value: T): T {
+    return this.get(key) === 'frozen' ? deepFreeze(value) : value;
+  }
+}
@@ -0,0 +1,22 @@
+import type { ContextWritePolicy } from '../interfaces';
+
+/**
+ * Thrown when a write or delete violates the policy of a context key
+ */
+export class ContextWriteError extends Error {
+  constructor(
+    /** The context key */
+    readonly key: string,
+    /** The policy that was violated */
+    readonly policy: ContextWritePolicy,
+    /** The rejected operation */
+    readonly operation: 'set' | 'delete',
+  ) {
+    super(
+      policy === 'readonly-after-setup'
+        ? `Cannot ${operation} context key "${key}": it is read-only after setup.`
+        : `Cannot ${operation} context key "${key}": it has already been set (${policy}).`,
+    );
+    this.name = 'ContextWriteError';
+  }
+}
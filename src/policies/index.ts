@@ -0,0 +1,2 @@
+export { ContextWriteError } from './context-write.error';
+export { SETUP_COMPLETE_KEY, deepFreeze, ContextWritePolicies } from './context-write-policies';
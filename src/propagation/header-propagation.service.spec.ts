@@ -0,0 +1,185 @@
+import 'reflect-metadata';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { RequestContextService } from '../request-context.service';
+import { HeaderPropagationOptions } from '../interfaces';
+import { HeaderPropagationService } from './header-propagation.service';
+
+describe('HeaderPropagationService', () => {
+  let server: Server;
+  let url: string;
+  let ctx: RequestContextService;
+
+  const incoming = {
+    headers: {
+      'x-tenant-id': 'acme',
+      'accept-language': 'fr',
+      authorization: 'Bearer secret',
+    },
+  };
+
+  const create = (propagation: HeaderPropagationOptions) => {
+    ctx = new RequestContextService({ propagation });
+    return new HeaderPropagationService(ctx, { propagation });
+  };
+
+  const inRequest = <T>(callback: () => Promise<T>): Promise<T> =>
+    ctx.runAsync(async () => {
+      ctx.setRequest(incoming, 'express');
+      ctx.set('userId', 42);
+      return callback();
+    });
+
+  beforeAll(async () => {
+    // Echoes the headers it receives
+    server = createServer((req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(req.headers));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('createFetch', () => {
+    const send = async (fetchFn: typeof fetch, init?: any): Promise<IncomingHttpHeaders> => {
+      const response = await fetchFn(url, init);
+      return (await response.json()) as IncomingHttpHeaders;
+    };
+
+    it('sends allowlisted headers and context keys under their renamed names', async () => {
+      const fetchFn = create({
+        headers: ['x-tenant-id', 'accept-language'],
+        contextKeys: ['userId'],
+        rename: { 'accept-language': 'x-locale', userId: 'x-user-id' },
+      }).createFetch();
+
+      const received = await inRequest(() => send(fetchFn));
+
+      expect(received['x-tenant-id']).toBe('acme');
+      expect(received['x-locale']).toBe('fr');
+      expect(received['x-user-id']).toBe('42');
+      expect(received.authorization).toBeUndefined();
+    });
+
+    it('matches renaming rules of headers case-insensitively', async () => {
+      const fetchFn = create({
+        headers: ['Accept-Language'],
+        rename: { 'ACCEPT-LANGUAGE': 'X-Locale' },
+      }).createFetch();
+
+      const received = await inRequest(() => send(fetchFn));
+
+      expect(received['x-locale']).toBe('fr');
+    });
+
+    it('skips context values that are not valid header values', async () => {
+      const fetchFn = create({ contextKeys: ['userId', 'city'] }).createFetch();
+
+      const received = await inRequest(() => {
+        ctx.set('city', { name: '東京' });
+        return send(fetchFn);
+      });
+
+      expect(received.userid).toBe('42');
+      expect(received.city).toBeUndefined();
+    });
+
+    it('sends nothing when the call opts out with propagateContext: false', async () => {
+      const fetchFn = create({ headers: ['x-tenant-id'] }).createFetch();
+
+      const received = await inRequest(() => send(fetchFn, { propagateContext: false }));
+
+      expect(received['x-tenant-id']).toBeUndefined();
+    });
+
+    it('keeps explicit headers unless overwrite is enabled', async () => {
+      const init = { headers: { 'x-tenant-id': 'explicit' } };
+
+      const keeping = create({ headers: ['x-tenant-id'] }).createFetch();
+      const kept = await inRequest(() => send(keeping, init));
+      const overwriting = create({ headers: ['x-tenant-id'], overwrite: true }).createFetch();
+      const replaced = await inRequest(() => send(overwriting, init));
+
+      expect(kept['x-tenant-id']).toBe('explicit');
+      expect(replaced['x-tenant-id']).toBe('acme');
+    });
+
+    it('sends nothing outside a context', async () => {
+      const fetchFn = create({ headers: ['x-tenant-id'], contextKeys: ['userId'] }).createFetch();
+
+      const received = await send(fetchFn);
+
+      expect(received['x-tenant-id']).toBeUndefined();
+      expect(received.userid).toBeUndefined();
+    });
+  });
+
+  describe('attachToAxios', () => {
+    const send = async (
+      propagation: HeaderPropagationOptions,
+      config: Record<string, any> = {},
+      inContext = true,
+    ): Promise<IncomingHttpHeaders> => {
+      const client = axios.create();
+      const detach = create(propagation).attachToAxios(client);
+      const request = () => client.get<IncomingHttpHeaders>(url, config).then((res) => res.data);
+
+      try {
+        return await (inContext ? inRequest(request) : request());
+      } finally {
+        detach();
+      }
+    };
+
+    it('sends allowlisted headers and context keys under their renamed names', async () => {
+      const received = await send({
+        headers: ['x-tenant-id', 'accept-language'],
+        contextKeys: ['userId'],
+        rename: { 'accept-language': 'x-locale', userId: 'x-user-id' },
+      });
+
+      expect(received['x-tenant-id']).toBe('acme');
+      expect(received['x-locale']).toBe('fr');
+      expect(received['x-user-id']).toBe('42');
+      expect(received.authorization).toBeUndefined();
+    });
+
+    it('sends nothing when the call opts out with propagateContext: false', async () => {
+      const received = await send({ headers: ['x-tenant-id'] }, { propagateContext: false });
+
+      expect(received['x-tenant-id']).toBeUndefined();
+    });
+
+    it('keeps explicit headers unless overwrite is enabled', async () => {
+      const config = { headers: { 'X-Tenant-Id': 'explicit' } };
+
+      const kept = await send({ headers: ['x-tenant-id'] }, config);
+      const replaced = await send({ headers: ['x-tenant-id'], overwrite: true }, config);
+
+      expect(kept['x-tenant-id']).toBe('explicit');
+      expect(replaced['x-tenant-id']).toBe('acme');
+    });
+
+    it('sends nothing outside a context', async () => {
+      const received = await send({ headers: ['x-tenant-id'] }, {}, false);
+
+      expect(received['x-tenant-id']).toBeUndefined();
+    });
+
+    it('stops propagating once detached', async () => {
+      const client = axios.create();
+      create({ headers: ['x-tenant-id'] }).attachToAxios(client)();
+
+      const received = await inRequest(() =>
+        client.get<IncomingHttpHeaders>(url).then((res) => res.data),
+      );
+
+      expect(received['x-tenant-id']).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  Optional,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { RequestContextService } from '../request-context.service';
+import {
+  HeaderPropagationOptions,
+  PropagationRequestOptions,
+  RequestContextModuleOptions,
+} from '../interfaces';
+import { REQUEST_CONTEXT_MODULE_OPTIONS } from '../constants';
+import { getOutboundTraceHeaders } from '../tracing';
+
+/**
+ * Minimal shape of an axios instance (e.g. HttpService.axiosRef)
+ * Keeps @nestjs/axios an optional dependency
+ */
+export interface AxiosInstanceLike {
+  interceptors: {
+    request: {
+      use(onFulfilled: (config: any) => any): number;
+      eject(id: number): void;
+    };
+  };
+}
+
+/**
+ * Any fetch-compatible function (global fetch, undici.fetch, node-fetch)
+ */
+export type FetchLike = (input: any, init?: any) => Promise<any>;
+
+/**
+ * Characters allowed in an HTTP header value: Latin-1 without control characters
+ * other than tab; fetch and Node's http module reject anything else
+ */
+const HEADER_VALUE_PATTERN = /^[\t\x20-\x7e\x80-\xff]*$/;
+
+/**
+ * Propagates incoming headers and context values onto outbound HTTP calls
+ * Works with @nestjs/axios HttpService (as a request interceptor) and fetch/undici
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class BillingClient implements OnModuleInit {
+ *   constructor(
+ *     private readonly http: HttpService,
+ *     private readonly propagation: HeaderPropagationService,
+ *   ) {}
+ *
+ *   onModuleInit() {
+ *     this.propagation.attachToAxios(this.http.axiosRef);
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class HeaderPropagationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger('RequestContext');
+  private readonly options: HeaderPropagationOptions;
+  /** Renaming rules of incoming headers, by lower-cased header name */
+  private readonly headerRenames: Map<string, string>;
+  private originalFetch?: FetchLike;
+
+  constructor(
+    private readonly contextService: RequestContextService,
+    @Optional()
+    @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
+    moduleOptions?: RequestContextModuleOptions,
+  ) {
+    this.options = moduleOptions?.propagation ?? {};
+    this.headerRenames = new Map(
+      Object.entries(this.options.rename ?? {}).map(([source, target]) => [
+        source.toLowerCase(),
+        target,
+      ]),
+    );
+  }
+
+  /**
+   * Patches the global fetch when `patchFetch` is enabled
+   */
+  onModuleInit(): void {
+    if (this.options.patchFetch && typeof globalThis.fetch === 'function') {
+      this.originalFetch = globalThis.fetch;
+      globalThis.fetch = this.createFetch(this.originalFetch) as typeof fetch;
+    }
+  }
+
+  /**
+   * Restores the global fetch
+   */
+  onModuleDestroy(): void {
+    if (this.originalFetch) {
+      globalThis.fetch = this.originalFetch as typeof fetch;
+      this.originalFetch = undefined;
+    }
+  }
+
+  /**
+   * Computes the headers to send on an outbound call from the current context
+   * Context values that can't be sent as a header value (e.g. non-Latin-1 text) are
+   * skipped with a warning
+   *
+   * @returns Outbound header names (lower-cased) mapped to their values
+   */
+  getOutboundHeaders(): Record<string, string> {
+    const result: Record<string, string> = {};
+    if (!this.contextService.isActive()) return result;
+
+    if (this.options.trace) {
+      Object.assign(result, getOutboundTraceHeaders(this.contextService));
+    }
+
+    for (const name of this.options.headers ?? []) {
+      const value = this.contextService.getHeader(name);
+      if (value === undefined) continue;
+      const outboundName = (this.headerRenames.get(name.toLowerCase()) ?? name).toLowerCase();
+      result[outboundName] = Array.isArray(value) ? value.join(', ') : value;
+    }
+
+    for (const key of this.options.contextKeys ?? []) {
+      const value = this.contextService.get(key);
+      if (value === undefined || value === null) continue;
+
+      const headerValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      if (!HEADER_VALUE_PATTERN.test(headerValue)) {
+        this.logger.warn(
+          `Context key "${key}" was not propagated: its value is not a valid HTTP header value.`,
+        );
+        continue;
+      }
+      result[(this.options.rename?.[key] ?? key).toLowerCase()] = headerValue;
+    }
+
+    return result;
+  }
+
+  /**
+   * Registers a request interceptor on an axios instance
+   *
+   * @param axios - The axios instance, e.g. `httpService.axiosRef`
+   * @returns A function that removes the interceptor
+   */
+  attachToAxios(axios: AxiosInstanceLike): () => void {
+    const id = axios.interceptors.request.use((config) => this.applyToAxiosConfig(config));
+    return () => axios.interceptors.request.eject(id);
+  }
+
+  /**
+   * Adds propagated headers to an axios request config
+   * Honors `propagateContext: false` on the config
+   */
+  applyToAxiosConfig<TConfig extends Record<string, any>>(config: TConfig): TConfig {
+    if ((config as PropagationRequestOptions).propagateContext === false) {
+      return config;
+    }
+
+    const outbound = this.getOutboundHeaders();
+    const headers: any = config.headers ?? {};
+    const isAxiosHeaders = typeof headers.set === 'function' && typeof headers.has === 'function';
+
+    Object.entries(outbound).forEach(([name, value]) => {
+      const exists = isAxiosHeaders
+        ? headers.has(name)
+        : Object.keys(headers).some((key) => key.toLowerCase() === name);
+      if (exists && !this.options.overwrite) return;
+
+      if (isAxiosHeaders) {
+        headers.set(name, value);
+      } else {
+        headers[name] = value;
+      }
+    });
+
+    (config as Record<string, any>).headers = headers;
+    return config;
+  }
+
+  /**
+   * Wraps a fetch implementation so that every call carries propagated headers
+   * Honors `propagateContext: false` on the request init
+   *
+   * @param baseFetch - The fetch to wrap (defaults to the global fetch; undici.fetch works too)
+   * @returns A fetch with the same signature
+   */
+  createFetch<TFetch extends FetchLike = typeof fetch>(
+    baseFetch: TFetch = globalThis.fetch as unknown as TFetch,
+  ): TFetch {
+    const propagatingFetch = (input: any, init?: any) => {
+      if (init?.propagateContext === false) {
+        const { propagateContext: _skip, ...rest } = init;
+        return baseFetch(input, rest);
+      }
+
+      const outbound = this.getOutboundHeaders();
+      if (Object.keys(outbound).length === 0) {
+        return baseFetch(input, init);
+      }
+
+      // Explicit init headers win over the headers of a Request input
+      const headers = new Headers(init?.headers ?? input?.headers);
+      Object.entries(outbound).forEach(([name, value]) => {
+        if (headers.has(name) && !this.options.overwrite) return;
+        headers.set(name, value);
+      });
+
+      return baseFetch(input, { ...init, headers });
+    };
+
+    return propagatingFetch as TFetch;
+  }
+}
@@ -0,0 +1,5 @@
+export {
+  HeaderPropagationService,
+  AxiosInstanceLike,
+  FetchLike,
+} from './header-propagation.service';
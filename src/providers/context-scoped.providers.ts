@@ -0,0 +1,149 @@
+import { Provider, Type } from '@nestjs/common';
+import { RequestContextService } from '../request-context.service';
+
+/**
+ * Metadata keys Nest stores constructor dependencies under
+ * Mirrored from '@nestjs/common/constants', a deep path the ESM build can't import
+ */
+const PARAMTYPES_METADATA = 'design:paramtypes';
+const SELF_DECLARED_DEPS_METADATA = 'self:paramtypes';
+const OPTIONAL_DEPS_METADATA = 'optional:paramtypes';
+
+/**
+ * Request cache key holding the context-scoped instances
+ */
+const CONTEXT_PROVIDERS_KEY = Symbol('ContextScopedInstances');
+
+/**
+ * Members the proxy never forwards outside a context
+ * Nest probes providers for them at boot (lifecycle hooks, thenables)
+ */
+const PROBED_MEMBERS = new Set<PropertyKey>([
+  'then',
+  'onModuleInit',
+  'onApplicationBootstrap',
+  'onModuleDestroy',
+  'beforeApplicationShutdown',
+  'onApplicationShutdown',
+]);
+
+/**
+ * Injection tokens of the instance factories, by class
+ */
+const factoryTokens = new WeakMap<Type, symbol>();
+
+function getFactoryToken(type: Type): symbol {
+  let token = factoryTokens.get(type);
+  if (!token) {
+    token = Symbol(`ContextScopedFactory(${type.name})`);
+    factoryTokens.set(type, token);
+  }
+  return token;
+}
+
+/**
+ * Resolves the constructor dependencies of a class the way Nest does,
+ * honoring @Inject() and @Optional()
+ */
+function getConstructorDependencies(type: Type): Array<{ token: any; optional: boolean }> {
+  const paramTypes: any[] = [...(Reflect.getMetadata(PARAMTYPES_METADATA, type) ?? [])];
+  const selfDeclared: Array<{ index: number; param: any }> =
+    Reflect.getMetadata(SELF_DECLARED_DEPS_METADATA, type) ?? [];
+  const optional: number[] = Reflect.getMetadata(OPTIONAL_DEPS_METADATA, type) ?? [];
+
+  selfDeclared.forEach(({ index, param }) => {
+    paramTypes[index] = param;
+  });
+
+  return paramTypes.map((token, index) => ({ token, optional: optional.includes(index) }));
+}
+
+/**
+ * Creates the proxy that forwards to the instance of the current context
+ */
+function createContextScopedProxy<T extends object>(
+  type: Type<T>,
+  create: () => T,
+  contextService: RequestContextService,
+): T {
+  const resolveInstance = (): T | undefined => {
+    if (!contextService.isActive()) return undefined;
+
+    // Instances live in the request cache, so they die with the context
+    let instances: Map<Type, any> | undefined = contextService.cache.get(CONTEXT_PROVIDERS_KEY);
+    if (!instances) {
+      instances = new Map();
+      contextService.cache.set(CONTEXT_PROVIDERS_KEY, instances);
+    }
+
+    if (!instances.has(type)) {
+      instances.set(type, create());
+    }
+    return instances.get(type);
+  };
+
+  return new Proxy(Object.create(type.prototype) as T, {
+    get(target, property) {
+      const instance = resolveInstance();
+
+      if (!instance) {
+        if (property === 'constructor') return type;
+        if (PROBED_MEMBERS.has(property)) return undefined;
+
+        const member = Reflect.get(target, property);
+        if (typeof member !== 'function') return undefined;
+
+        return () => {
+          throw new Error(
+            `${type.name} is context-scoped and was used outside of a request context.`,
+          );
+        };
+      }
+
+      const value = Reflect.get(instance, property, instance);
+      return typeof value === 'function' ? value.bind(instance) : value;
+    },
+    set(_target, property, value) {
+      const instance = resolveInstance();
+      if (!instance) {
+        throw new Error(
+          `${type.name} is context-scoped and was used outside of a request context.`,
+        );
+      }
+      return Reflect.set(instance, property, value, instance);
+    },
+    has(target, property) {
+      return Reflect.has(resolveInstance() ?? target, property);
+    },
+  });
+}
+
+/**
+ * Creates the providers for context-scoped classes
+ * Each class is exposed as a singleton proxy; the real instance is built lazily once
+ * per context with the class's (singleton) constructor dependencies and forwarded to.
+ * Property injection and Nest lifecycle hooks are not supported on context-scoped classes.
+ *
+ * @param types - The context-scoped classes
+ * @returns Providers to register and export
+ */
+export function createContextScopedProviders(types: Type[]): Provider[] {
+  return types.flatMap((type): Provider[] => {
+    const dependencies = getConstructorDependencies(type);
+    const factoryToken = getFactoryToken(type);
+
+    return [
+      {
+        provide: factoryToken,
+        useFactory: (...args: any[]) => () => new type(...args),
+        inject: dependencies.map(({ token, optional }) => (optional ? { token, optional } : token)),
+      },
+      {
+        provide: type,
+        useFactory: (create: () => object, contextService: RequestContextService) =>
+          createContextScopedProxy(type, create, contextService),
+        inject: [factoryToken, RequestContextService],
+      },
+    ];
+  });
+}
@@ -0,0 +1 @@
+export { createContextScopedProviders } from './context-scoped.providers';
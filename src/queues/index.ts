@@ -0,0 +1,11 @@
+export {
+  JOB_CONTEXT_KEY,
+  JobContextCaptureOptions,
+  captureJobContext,
+  withJobContext,
+  getJobContext,
+} from './job-context';
+export {
+  RestoreJobContext,
+  RestoreJobContextOptions,
+} from './restore-job-context.decorator';
@@ -0,0 +1,89 @@
+import { RequestContextService } from '../request-context.service';
+
+/**
+ * Job data property that carries the producer's context values
+ */
+export const JOB_CONTEXT_KEY = '_context';
+
+/**
+ * Options for capturing context into a job
+ */
+export interface JobContextCaptureOptions {
+  /**
+   * Context keys to carry (allowlist)
+   * When omitted, every non-internal key from getAll() is carried
+   */
+  keys?: string[];
+
+  /**
+   * Job data property to store the values under
+   * @default '_context'
+   */
+  dataKey?: string;
+}
+
+/**
+ * Captures context values for a job
+ * Values must be JSON-serializable to survive the trip through Redis
+ *
+ * @param contextService - The context service
+ * @param keys - Optional allowlist of keys
+ * @returns The captured values (empty outside a context)
+ */
+export function captureJobContext(
+  contextService: RequestContextService,
+  keys?: string[],
+): Record<string, any> {
+  const all = contextService.getAll();
+  if (!keys) return { ...all };
+
+  const captured: Record<string, any> = {};
+  for (const key of keys) {
+    if (key in all) {
+      captured[key] = all[key];
+    }
+  }
+  return captured;
+}
+
+/**
+ * Adds the current context values to job data
+ * Use on the producer side before `queue.add()`
+ *
+ * @param data - The job data
+ * @param options - Capture options
+ * @param contextService - Optional service instance; the global instance is used otherwise
+ * @returns The job data with the captured context attached
+ *
+ * @example
+ * ```typescript
+ * await this.queue.add('send-invoice', withJobContext({ invoiceId }, { keys: ['tenantId', 'userId'] }));
+ * ```
+ */
+export function withJobContext<TData extends Record<string, any>>(
+  data: TData,
+  options: JobContextCaptureOptions = {},
+  contextService?: RequestContextService,
+): TData & { [key: string]: Record<string, any> } {
+  const service = contextService ?? RequestContextService.getInstance();
+
+  return {
+    ...data,
+    [options.dataKey ?? JOB_CONTEXT_KEY]: captureJobContext(service, options.keys),
+  };
+}
+
+/**
+ * Reads the captured context values from a job
+ *
+ * @param job - A Bull or BullMQ job (anything with a `data` property)
+ * @param dataKey - The job data property holding the values
+ * @returns The captured values or undefined
+ */
+export function getJobContext(
+  job: { data?: any } | undefined,
+  dataKey: string = JOB_CONTEXT_KEY,
+): Record<string, any> | undefined {
+  const values = job?.data?.[dataKey];
+  return values && typeof values === 'object' ? values : undefined;
+}
@@ -0,0 +1,147 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { withJobContext } from './job-context';
+import { RestoreJobContext } from './restore-job-context.decorator';
+
+interface FakeJob {
+  name: string;
+  data: any;
+}
+
+/**
+ * Stands in for Bull/BullMQ: job data goes through JSON like it does through Redis,
+ * and jobs are processed later, outside the producer's context
+ */
+class FakeQueue {
+  private readonly jobs: FakeJob[] = [];
+
+  add(name: string, data: Record<string, any>): void {
+    this.jobs.push({ name, data: JSON.parse(JSON.stringify(data)) });
+  }
+
+  async drain(process: (job: FakeJob) => Promise<unknown>): Promise<unknown[]> {
+    const jobs = this.jobs.splice(0);
+    await new Promise((resolve) => setImmediate(resolve));
+    return Promise.all(jobs.map(process));
+  }
+}
+
+describe('RestoreJobContext', () => {
+  let ctx: RequestContextService;
+  let queue: FakeQueue;
+
+  class InvoiceProcessor {
+    @RestoreJobContext()
+    async send(job: FakeJob) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return { invoiceId: job.data.invoiceId, values: ctx.getAll() };
+    }
+
+    @RestoreJobContext({ dataKey: 'meta', initialValues: { source: 'queue' } })
+    async sendWithOptions(job: FakeJob) {
+      return { invoiceId: job.data.invoiceId, values: ctx.getAll() };
+    }
+
+    @RestoreJobContext()
+    async readInternal(_job: FakeJob) {
+      return { request: ctx.getRequest(), lazyUser: ctx.get('user') };
+    }
+
+    @RestoreJobContext()
+    async overwriteTenant(_job: FakeJob) {
+      ctx.set('tenantId', 'globex');
+    }
+  }
+
+  const processor = new InvoiceProcessor();
+
+  beforeEach(() => {
+    ctx = new RequestContextService();
+    ctx.onModuleInit();
+    queue = new FakeQueue();
+  });
+
+  const produce = (values: Record<string, any>, invoiceId: string, keys?: string[]) =>
+    ctx.run(() => queue.add('send-invoice', withJobContext({ invoiceId }, { keys })), values);
+
+  it('restores the producer values in the processor', async () => {
+    produce({ tenantId: 'acme', userId: 42 }, 'inv-1');
+
+    const [result] = await queue.drain((job) => processor.send(job));
+
+    expect(result).toEqual({ invoiceId: 'inv-1', values: { tenantId: 'acme', userId: 42 } });
+  });
+
+  it('only carries the allowlisted keys', async () => {
+    produce({ tenantId: 'acme', userId: 42, token: 'secret' }, 'inv-1', ['tenantId']);
+
+    const [result] = await queue.drain((job) => processor.send(job));
+
+    expect(result).toEqual({ invoiceId: 'inv-1', values: { tenantId: 'acme' } });
+  });
+
+  it('gives every job its own context', async () => {
+    produce({ tenantId: 'acme' }, 'inv-1');
+    produce({ tenantId: 'globex' }, 'inv-2');
+
+    const results = await queue.drain((job) => processor.send(job));
+
+    expect(results).toEqual([
+      { invoiceId: 'inv-1', values: { tenantId: 'acme' } },
+      { invoiceId: 'inv-2', values: { tenantId: 'globex' } },
+    ]);
+    expect(ctx.isActive()).toBe(false);
+  });
+
+  it('reads a custom data key and adds the initial values', async () => {
+    ctx.run(
+      () => queue.add('send-invoice', withJobContext({ invoiceId: 'inv-1' }, { dataKey: 'meta' })),
+      { tenantId: 'acme' },
+    );
+
+    const [result] = await queue.drain((job) => processor.sendWithOptions(job));
+
+    expect(result).toEqual({
+      invoiceId: 'inv-1',
+      values: { source: 'queue', tenantId: 'acme' },
+    });
+  });
+
+  it('drops internal keys injected in the job data', async () => {
+    queue.add('send-invoice', {
+      invoiceId: 'inv-1',
+      _context: { tenantId: 'acme', __request__: { headers: {} }, __lazy__: new Map() },
+    });
+
+    const [result] = await queue.drain((job) => processor.readInternal(job));
+
+    expect(result).toEqual({ request: undefined, lazyUser: undefined });
+  });
+
+  it('completes setup before the processor runs', async () => {
+    ctx = new RequestContextService({
+      policies: { tenantId: 'readonly-after-setup' },
+      validation: { schemas: { tenantId: (value) => value !== 'blocked' || 'is blocked' } },
+    });
+    ctx.onModuleInit();
+    produce({ tenantId: 'acme' }, 'inv-1');
+    produce({ tenantId: 'blocked' }, 'inv-2');
+
+    const [locked, invalid] = await queue.drain((job) =>
+      new Promise((resolve) => resolve(processor.overwriteTenant(job))).catch(
+        (error) => error.name,
+      ),
+    );
+
+    expect(locked).toBe('ContextWriteError');
+    expect(invalid).toBe('ContextValidationError');
+  });
+
+  it('runs jobs without captured values in an empty context', async () => {
+    queue.add('send-invoice', { invoiceId: 'inv-1' });
+
+    const [result] = await queue.drain((job) => processor.send(job));
+
+    expect(result).toEqual({ invoiceId: 'inv-1', values: {} });
+  });
+});
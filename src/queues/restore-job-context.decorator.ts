@@ -0,0 +1,91 @@
+import { RequestContextService } from '../request-context.service';
+import { copyMetadata } from '../utils';
+import { JOB_CONTEXT_KEY, getJobContext } from './job-context';
+
+/**
+ * Options for restoring context in a job processor
+ */
+export interface RestoreJobContextOptions {
+  /**
+   * Job data property holding the captured values
+   * @default '_context'
+   */
+  dataKey?: string;
+
+  /**
+   * Extra values set in every job context (e.g. a source marker)
+   */
+  initialValues?: Record<string, any>;
+}
+
+/**
+ * Finds the job among the handler arguments (the first argument with `data`)
+ */
+function findJob(args: any[]): { data?: any } | undefined {
+  return args.find((arg) => arg && typeof arg === 'object' && 'data' in arg);
+}
+
+/**
+ * Drops internal keys a crafted job could try to inject
+ */
+function withoutInternalKeys(values: Record<string, any> | undefined): Record<string, any> {
+  const result: Record<string, any> = {};
+  Object.entries(values ?? {}).forEach(([key, value]) => {
+    if (!key.startsWith('__')) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Method decorator for @nestjs/bull and @nestjs/bullmq processors
+ * Runs the handler in a new context restored from the values captured by withJobContext()
+ * The restored values count as the result of setup: they are validated and
+ * 'readonly-after-setup' keys are locked before the handler runs
+ *
+ * @example
+ * ```typescript
+ * @Processor('invoices')
+ * export class InvoiceProcessor {
+ *   constructor(private readonly ctx: RequestContextService) {}
+ *
+ *   @Process('send-invoice')
+ *   @RestoreJobContext()
+ *   async send(job: Job<{ invoiceId: string }>) {
+ *     const tenantId = this.ctx.get('tenantId');
+ *   }
+ * }
+ *
+ * // BullMQ WorkerHost
+ * @Processor('invoices')
+ * export class InvoiceWorker extends WorkerHost {
+ *   @RestoreJobContext({ initialValues: { source: 'queue' } })
+ *   async process(job: Job) {}
+ * }
+ * ```
+ */
+export function RestoreJobContext(options: RestoreJobContextOptions = {}): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const original = descriptor.value;
+
+    descriptor.value = function (this: any, ...args: any[]) {
+      const contextService = RequestContextService.getInstance();
+      const captured = getJobContext(findJob(args), options.dataKey ?? JOB_CONTEXT_KEY);
+
+      return contextService.run(
+        () => {
+          contextService.completeSetup();
+          return original.apply(this, args);
+        },
+        {
+          ...options.initialValues,
+          ...withoutInternalKeys(captured),
+        },
+      );
+    };
+
+    copyMetadata(original, descriptor.value);
+    return descriptor;
+  };
+}
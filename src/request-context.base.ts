@@ -1,5 +1,7 @@
 import { Injectable } from '@nestjs/common';
-import { RequestContextService } from './request-context.service';
+import { RequestContextService, ForkedContext } from './request-context.service';
+import { ContextSnapshot } from './snapshot';
+import { ContextKey } from './keys';
 import { RequestAdapter } from './adapters';
 
 /**
@@ -51,41 +53,45 @@ export abstract class BaseRequestContext<TStore extends Record<string, any> = Re
   /**
    * Gets a value from the context store
    *
-   * @param key - The key to retrieve
-   * @returns The value or undefined
+   * @param key - The key or typed key token to retrieve
+   * @returns The value, the token's default, or undefined
    */
-  protected get<K extends keyof TStore>(key: K): TStore[K] {
-    return this.contextService.get(key);
+  protected get<T, D extends T | undefined>(key: ContextKey<T, D>): T | D;
+  protected get<K extends keyof TStore>(key: K): TStore[K];
+  protected get(key: keyof TStore | ContextKey<any>): any {
+    return this.contextService.get(key as any);
   }
 
   /**
    * Sets a value in the context store
    *
-   * @param key - The key to set
+   * @param key - The key or typed key token to set
    * @param value - The value to store
    */
-  protected set<K extends keyof TStore>(key: K, value: TStore[K]): void {
-    this.contextService.set(key, value);
+  protected set<T>(key: ContextKey<T, any>, value: T): void;
+  protected set<K extends keyof TStore>(key: K, value: TStore[K]): void;
+  protected set(key: keyof TStore | ContextKey<any>, value: any): void {
+    this.contextService.set(key as any, value);
   }
 
   /**
    * Checks if a key exists in the context store
    *
-   * @param key - The key to check
+   * @param key - The key or typed key token to check
    * @returns true if the key exists
    */
-  protected has<K extends keyof TStore>(key: K): boolean {
-    return this.contextService.has(key);
+  protected has<K extends keyof TStore>(key: K | ContextKey<any>): boolean {
+    return this.contextService.has(key as any);
   }
 
   /**
    * Deletes a value from the context store
    *
-   * @param key - The key to delete
+   * @param key - The key or typed key token to delete
    * @returns true if the key was deleted
    */
-  protected delete<K extends keyof TStore>(key: K): boolean {
-    return this.contextService.delete(key);
+  protected delete<K extends keyof TStore>(key: K | ContextKey<any>): boolean {
+    return this.contextService.delete(key as any);
   }
 
   /**
@@ -107,6 +113,59 @@ export abstract class BaseRequestContext<TStore extends Record<string, any> = Re
     return this.contextService.getAll();
   }
 
+  /**
+   * Captures the current context values in a versioned, JSON-safe envelope
+   *
+   * @param keys - Optional allowlist of keys
+   */
+  protected snapshot(keys?: Array<keyof TStore & string>): ContextSnapshot {
+    return this.contextService.snapshot({ keys });
+  }
+
+  /**
+   * Creates a child of the current context without entering it
+   *
+   * @param initialValues - Optional values set in the child
+   * @returns A handle to run code in the child and merge it back
+   */
+  protected fork(initialValues?: Partial<TStore>): ForkedContext {
+    return this.contextService.fork(initialValues);
+  }
+
+  /**
+   * Runs a callback in a child of the current context
+   *
+   * @param callback - The function to run within the child context
+   * @param initialValues - Optional values set in the child
+   * @returns The return value of the callback
+   */
+  protected runChild<T>(callback: () => T, initialValues?: Partial<TStore>): T {
+    return this.contextService.runChild(callback, initialValues);
+  }
+
+  /**
+   * Copies the current child context's writes into its parent
+   *
+   * @param keys - Optional subset of keys to merge
+   */
+  protected merge(keys?: Array<keyof TStore & string>): void {
+    this.contextService.merge(keys);
+  }
+
+  /**
+   * Gets the values of every context in the parent chain, current first
+   */
+  protected getParentChain(): Record<string, any>[] {
+    return this.contextService.getParentChain();
+  }
+
+  /**
+   * Gets the nesting depth of the current context (0 for a root context)
+   */
+  get depth(): number {
+    return this.contextService.getDepth();
+  }
+
   /**
    * Checks if the context is currently active
    */
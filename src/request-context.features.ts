@@ -0,0 +1,52 @@
+import { RequestContextService } from './request-context.service';
+import { RequestContextModuleOptions } from './interfaces';
+import { AdapterType, getAdapter } from './adapters';
+import { applyRequestId, resolveRequestIdOptions } from './request-id';
+import { applyTraceContext, resolveTracingOptions } from './tracing';
+import { applyDeadline, resolveDeadlineOptions } from './deadline';
+
+/**
+ * Applies the built-in per-request features (response, request ID, trace context, deadline)
+ * to a freshly opened context. Initializers call this after storing the
+ * request and before running `setup`, so `setup` can read the results.
+ *
+ * @param contextService - The context service (must be inside an active context)
+ * @param request - The incoming request
+ * @param response - The outgoing response, if the transport has one
+ * @param adapterType - The adapter type used when no adapter is stored in the context
+ * @param options - Module options
+ */
+export function applyContextFeatures(
+  contextService: RequestContextService,
+  request: any,
+  response: any,
+  adapterType: AdapterType,
+  options?: RequestContextModuleOptions,
+): void {
+  // Kept for work bound to the response (afterResponse, deadline)
+  if (response) {
+    contextService.setResponse(response);
+  }
+
+  const requestIdOptions = resolveRequestIdOptions(options?.requestId);
+  const tracingOptions = resolveTracingOptions(options?.tracing);
+  // WebSocket connections outlive their messages; deadlines only apply per request
+  const deadlineOptions =
+    adapterType === 'ws' ? undefined : resolveDeadlineOptions(options?.deadline);
+
+  if (!request || (!requestIdOptions && !tracingOptions && !deadlineOptions)) return;
+
+  const adapter = contextService.getAdapter() ?? getAdapter(adapterType, request);
+
+  if (requestIdOptions) {
+    applyRequestId(contextService, adapter, request, response, requestIdOptions);
+  }
+
+  if (tracingOptions) {
+    applyTraceContext(contextService, adapter, request, tracingOptions);
+  }
+
+  if (deadlineOptions) {
+    applyDeadline(contextService, adapter, request, response, deadlineOptions);
+  }
+}
@@ -9,6 +9,8 @@ import { RequestContextService } from './request-context.service';
 import { RequestContextModuleOptions } from './interfaces';
 import { REQUEST_CONTEXT_MODULE_OPTIONS } from './constants';
 import { detectAdapterType } from './adapters';
+import { applyContextFeatures } from './request-context.features';
+import { ContextLifecycleService } from './lifecycle';
 
 /**
  * Guard for initializing request context
@@ -17,6 +19,10 @@ import { detectAdapterType } from './adapters';
  * When used together with middleware, this guard acts as a safety net:
  * - If context is already initialized by middleware, it skips re-initialization
  * - If context is not initialized (e.g., middleware was skipped), it initializes it
+ *
+ * Only HTTP execution contexts are handled; microservice handlers, GraphQL resolvers and
+ * gateways are initialized by RequestContextInterceptor when the `rpc`/`graphql`/`websocket`
+ * options are enabled
  */
 @Injectable()
 export class RequestContextGuard implements CanActivate {
@@ -25,9 +31,14 @@ export class RequestContextGuard implements CanActivate {
     @Optional()
     @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
     private readonly options?: RequestContextModuleOptions,
+    @Optional() private readonly lifecycle?: ContextLifecycleService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
     // Check if context is already initialized (e.g., by middleware)
     if (this.contextService.isActive()) {
       // Context already exists, no need to re-initialize
@@ -35,10 +46,13 @@ export class RequestContextGuard implements CanActivate {
     }
 
     const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
 
     return new Promise<boolean>((resolve, reject) => {
       this.contextService.run(async () => {
         try {
+          this.lifecycle?.track(response, { type: 'http' });
+
           // Determine adapter type
           const adapterType =
             this.options?.adapter === 'auto' || !this.options?.adapter
@@ -50,13 +64,24 @@ export class RequestContextGuard implements CanActivate {
             this.contextService.setRequest(request, adapterType);
           }
 
+          applyContextFeatures(
+            this.contextService,
+            request,
+            response,
+            adapterType,
+            this.options,
+          );
+
           // Call custom setup function if provided
           if (this.options?.setup) {
-            await this.options.setup(this.contextService, request);
+            await this.options.setup(this.contextService, request, { type: 'http' });
           }
 
+          this.contextService.completeSetup();
+          await this.lifecycle?.start(request, { type: 'http' });
           resolve(true);
         } catch (error) {
+          this.lifecycle?.reportError(error);
           reject(error);
         }
       });
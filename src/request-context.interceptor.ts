@@ -6,59 +6,273 @@ import {
   Inject,
   Optional,
 } from '@nestjs/common';
-import { Observable } from 'rxjs';
+import { Observable, from, map, switchMap } from 'rxjs';
 import { RequestContextService } from './request-context.service';
-import { RequestContextModuleOptions } from './interfaces';
+import {
+  ContextSetupInfo,
+  RequestContextModuleOptions,
+  RpcContextOptions,
+} from './interfaces';
 import { REQUEST_CONTEXT_MODULE_OPTIONS } from './constants';
-import { detectAdapterType } from './adapters';
+import {
+  AdapterType,
+  RpcRequest,
+  createRpcRequest,
+  createSocketConnectionRequest,
+  createSocketRequest,
+  detectAdapterType,
+} from './adapters';
+import {
+  bindAsyncIterator,
+  getGraphQLOperationInfo,
+  getRequestFromContext,
+  getResponseFromContext,
+  getRawResponse,
+  isAsyncIterator,
+} from './utils';
+import { applyContextFeatures } from './request-context.features';
+import { ContextLifecycleService } from './lifecycle';
+import { endDeadline } from './deadline';
+import { holdAfterResponseTasks } from './after-response';
+
+const DEFAULT_RPC_METADATA_KEY = '_context';
 
 /**
  * Interceptor for initializing request context
  * Use when middleware or guards cannot be used, or when interceptor-based initialization is preferred
  *
+ * The interceptor is transport-aware:
+ * - 'http': initializes the context unless middleware already did
+ * - 'rpc': opens a new context for each microservice message when the `rpc` option is enabled
+ * - 'graphql': when the `graphql` option is enabled, initializes the context for queries and
+ *   mutations unless middleware already did, and opens a new context for every subscription
+ * - 'ws': when the `websocket` option is enabled, runs `setup` once per connection and opens a
+ *   new context for every @SubscribeMessage call, seeded with a copy of the connection's values
+ *
  * Note: Interceptors run after guards, so be careful about initialization order
  */
 @Injectable()
 export class RequestContextInterceptor implements NestInterceptor {
+  /**
+   * Context values produced by `setup` for each WebSocket connection, as returned by `getAll()`
+   * Entries are released together with the client object
+   */
+  private readonly connectionValues = new WeakMap<object, Promise<Record<string, any>>>();
+
   constructor(
     private readonly contextService: RequestContextService,
     @Optional()
     @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
     private readonly options?: RequestContextModuleOptions,
+    @Optional() private readonly lifecycle?: ContextLifecycleService,
   ) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() === 'rpc') {
+      if (!this.options?.rpc) {
+        return next.handle();
+      }
+
+      const request = createRpcRequest(context);
+      return this.runInContext(request, 'rpc', next, {
+        info: { type: 'rpc', pattern: request.pattern },
+        beforeSetup: () => this.copyRpcMetadata(request),
+      });
+    }
+
+    if (context.getType() === 'ws') {
+      if (!this.options?.websocket) {
+        return next.handle();
+      }
+
+      const request = createSocketRequest(context);
+      return from(this.getConnectionValues(request.client)).pipe(
+        switchMap((initialStore) => this.runInContext(request, 'ws', next, { initialStore })),
+      );
+    }
+
+    if (context.getType<string>() === 'graphql') {
+      if (!this.options?.graphql) {
+        return next.handle();
+      }
+
+      const operation = getGraphQLOperationInfo(context);
+      const isSubscription = operation.operationType === 'subscription';
+
+      // Queries and mutations share the context opened for the HTTP request
+      if (!isSubscription && this.contextService.isActive()) {
+        return next.handle();
+      }
+
+      const request = getRequestFromContext(context);
+      const handled = this.runInContext(request, this.resolveAdapterType(request), next, {
+        info: { type: 'graphql', ...operation },
+        response: getResponseFromContext(context),
+      });
+
+      // Keep the subscription's event stream inside its own context
+      if (!isSubscription) {
+        return handled;
+      }
+
+      return handled.pipe(
+        map((result) => (isAsyncIterator(result) ? bindAsyncIterator(result) : result)),
+      );
+    }
+
+    // Context already initialized (e.g., by middleware)
+    if (this.contextService.isActive()) {
+      return next.handle();
+    }
+
     const request = context.switchToHttp().getRequest();
 
+    return this.runInContext(request, this.resolveAdapterType(request), next, {
+      info: { type: 'http' },
+      response: context.switchToHttp().getResponse(),
+    });
+  }
+
+  /**
+   * Determines the adapter type for an HTTP request
+   */
+  private resolveAdapterType(request: any): AdapterType {
+    return this.options?.adapter === 'auto' || !this.options?.adapter
+      ? detectAdapterType(request)
+      : this.options.adapter;
+  }
+
+  /**
+   * Resolves the context values of a WebSocket connection
+   * `setup` runs once per client against the handshake; the result is reused for every message
+   */
+  private getConnectionValues(client: object): Promise<Record<string, any>> {
+    let values = this.connectionValues.get(client);
+
+    if (!values) {
+      const request = createSocketConnectionRequest(client);
+
+      values = this.contextService.runAsync(async () => {
+        if (this.options?.setRequest !== false) {
+          this.contextService.setRequest(request, 'ws');
+        }
+
+        applyContextFeatures(this.contextService, request, undefined, 'ws', this.options);
+
+        if (this.options?.setup) {
+          await this.options.setup(this.contextService, request, { type: 'ws' });
+        }
+
+        return this.contextService.getAll();
+      });
+
+      // Allow a retry on the next message if setup failed
+      values.catch(() => this.connectionValues.delete(client));
+      this.connectionValues.set(client, values);
+    }
+
+    return values;
+  }
+
+  /**
+   * Opens a new context, initializes it and subscribes to the handler inside it
+   * Built-in features and `setup` only run when setup info is given
+   */
+  private runInContext(
+    request: any,
+    adapterType: AdapterType,
+    next: CallHandler,
+    init: {
+      info?: ContextSetupInfo;
+      initialStore?: Record<string, any>;
+      response?: any;
+      beforeSetup?: () => void;
+    },
+  ): Observable<any> {
     return new Observable((subscriber) => {
       this.contextService.run(async () => {
-        try {
-          // Determine adapter type
-          const adapterType =
-            this.options?.adapter === 'auto' || !this.options?.adapter
-              ? detectAdapterType(request)
-              : this.options.adapter;
+        if (init.info) {
+          this.lifecycle?.track(init.response, init.info);
+        }
 
+        // Contexts without a response end with the handler's stream
+        if (!getRawResponse(init.response)) {
+          holdAfterResponseTasks(this.contextService);
+          subscriber.add(
+            this.contextService.bind(() => {
+              this.lifecycle?.end();
+              endDeadline(this.contextService);
+              void this.contextService.flushAfterResponse();
+            }),
+          );
+        }
+
+        try {
           // Set the request object in context if enabled
           if (this.options?.setRequest !== false) {
             this.contextService.setRequest(request, adapterType);
           }
 
+          if (init.info) {
+            applyContextFeatures(
+              this.contextService,
+              request,
+              init.response,
+              adapterType,
+              this.options,
+            );
+          }
+
+          init.beforeSetup?.();
+
           // Call custom setup function if provided
-          if (this.options?.setup) {
-            await this.options.setup(this.contextService, request);
+          if (init.info && this.options?.setup) {
+            await this.options.setup(this.contextService, request, init.info);
+          }
+
+          this.contextService.completeSetup();
+
+          if (init.info) {
+            await this.lifecycle?.start(request, init.info);
           }
 
           // Continue with request handling
           next.handle().subscribe({
             next: (value) => subscriber.next(value),
-            error: (err) => subscriber.error(err),
+            error: (err) => {
+              this.lifecycle?.reportError(err);
+              subscriber.error(err);
+            },
             complete: () => subscriber.complete(),
           });
         } catch (error) {
+          this.lifecycle?.reportError(error);
           subscriber.error(error);
         }
-      });
+      }, init.initialStore);
+    });
+  }
+
+  /**
+   * Copies the allowlisted context values carried in the message payload into the context
+   */
+  private copyRpcMetadata(request: RpcRequest): void {
+    const rpcOptions: RpcContextOptions =
+      typeof this.options?.rpc === 'object' ? this.options.rpc : {};
+    const allowedKeys = rpcOptions.allowedKeys ?? [];
+    // Message payloads are sender-controlled; nothing is trusted without an allowlist
+    if (allowedKeys.length === 0) return;
+
+    const metadataKey = rpcOptions.metadataKey ?? DEFAULT_RPC_METADATA_KEY;
+    const values = request.data?.[metadataKey];
+
+    if (!values || typeof values !== 'object') return;
+
+    Object.entries(values).forEach(([key, value]) => {
+      // Never let a message overwrite internal keys
+      if (key.startsWith('__')) return;
+      if (!allowedKeys.includes(key)) return;
+      this.contextService.set(key, value);
     });
   }
 }
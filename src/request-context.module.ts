@@ -1,6 +1,7 @@
 import {
   DynamicModule,
   Module,
+  ModuleMetadata,
   MiddlewareConsumer,
   NestModule,
   Inject,
@@ -14,6 +15,12 @@ import { ExpressContextMiddleware } from './middleware/express.middleware';
 import { FastifyContextMiddleware } from './middleware/fastify.middleware';
 import { RequestContextGuard } from './request-context.guard';
 import { RequestContextInterceptor } from './request-context.interceptor';
+import { HeaderPropagationService } from './propagation';
+import { OpenTelemetryBridge, OpenTelemetryContextInterceptor } from './opentelemetry';
+import { ContextLogger } from './logger';
+import { EventContextPropagation } from './events';
+import { createContextScopedProviders } from './providers';
+import { ContextLifecycleService, ContextLifecycleInterceptor } from './lifecycle';
 import {
   RequestContextModuleOptions,
   RequestContextModuleAsyncOptions,
@@ -75,6 +82,7 @@ const DEFAULT_MODULE_OPTIONS: Required<
 @Module({})
 export class RequestContextModule implements NestModule {
   private readonly options: RequestContextModuleOptions;
+  private readonly isFeatureModule: boolean;
 
   constructor(
     @Optional()
@@ -82,6 +90,8 @@ export class RequestContextModule implements NestModule {
     options?: RequestContextModuleOptions,
     @Optional() private readonly httpAdapterHost?: HttpAdapterHost,
   ) {
+    // Only forRoot/forRootAsync provide options; forFeature modules don't
+    this.isFeatureModule = !options;
     this.options = RequestContextModule.applyDefaults(options);
   }
 
@@ -91,6 +101,35 @@ export class RequestContextModule implements NestModule {
     return { ...DEFAULT_MODULE_OPTIONS, ...options };
   }
 
+  /**
+   * Applies defaults to resolved async options
+   * Flags given at module definition time are used when the factory leaves them unset
+   */
+  private static applyAsyncDefaults(
+    config: RequestContextModuleOptions,
+    asyncOptions: RequestContextModuleAsyncOptions,
+  ): RequestContextModuleOptions {
+    const normalized = RequestContextModule.applyDefaults(config);
+
+    if (normalized.rpc === undefined && asyncOptions.rpc !== undefined) {
+      normalized.rpc = asyncOptions.rpc;
+    }
+
+    if (normalized.graphql === undefined && asyncOptions.graphql !== undefined) {
+      normalized.graphql = asyncOptions.graphql;
+    }
+
+    if (normalized.websocket === undefined && asyncOptions.websocket !== undefined) {
+      normalized.websocket = asyncOptions.websocket;
+    }
+
+    if (normalized.openTelemetry === undefined && asyncOptions.openTelemetry !== undefined) {
+      normalized.openTelemetry = asyncOptions.openTelemetry;
+    }
+
+    return normalized;
+  }
+
   /**
    * Configures the module with synchronous options
    *
@@ -110,6 +149,11 @@ export class RequestContextModule implements NestModule {
         provide: REQUEST_CONTEXT_SERVICE,
         useExisting: RequestContextService,
       },
+      HeaderPropagationService,
+      OpenTelemetryBridge,
+      ContextLogger,
+      EventContextPropagation,
+      ContextLifecycleService,
     ];
 
     // Add guard or interceptor based on setup type
@@ -133,10 +177,47 @@ export class RequestContextModule implements NestModule {
       });
     }
 
+    // Microservice, GraphQL and gateway handlers are initialized by the interceptor
+    if (
+      (normalizedOptions.rpc || normalizedOptions.graphql || normalizedOptions.websocket) &&
+      normalizedOptions.setupType !== 'interceptor'
+    ) {
+      providers.push({
+        provide: APP_INTERCEPTOR,
+        useClass: RequestContextInterceptor,
+      });
+    }
+
+    // Registered last so it runs inside the initialized context
+    if (normalizedOptions.openTelemetry) {
+      providers.push({
+        provide: APP_INTERCEPTOR,
+        useClass: OpenTelemetryContextInterceptor,
+      });
+    }
+
+    if (normalizedOptions.lifecycle?.length) {
+      providers.push({
+        provide: APP_INTERCEPTOR,
+        useClass: ContextLifecycleInterceptor,
+      });
+    }
+
+    const contextScoped = normalizedOptions.contextScoped ?? [];
+    providers.push(...createContextScopedProviders(contextScoped));
+
     const module: DynamicModule = {
       module: RequestContextModule,
       providers,
-      exports: [RequestContextService, REQUEST_CONTEXT_SERVICE],
+      exports: [
+        RequestContextService,
+        REQUEST_CONTEXT_SERVICE,
+        HeaderPropagationService,
+        OpenTelemetryBridge,
+        ContextLogger,
+        ContextLifecycleService,
+        ...contextScoped,
+      ],
     };
 
     if (normalizedOptions.isGlobal !== false) {
@@ -161,6 +242,11 @@ export class RequestContextModule implements NestModule {
         provide: REQUEST_CONTEXT_SERVICE,
         useExisting: RequestContextService,
       },
+      HeaderPropagationService,
+      OpenTelemetryBridge,
+      ContextLogger,
+      EventContextPropagation,
+      ContextLifecycleService,
     ];
 
     // Note: For async configuration, we can't determine setupType at module definition time
@@ -171,15 +257,47 @@ export class RequestContextModule implements NestModule {
       useClass: RequestContextGuard,
     });
 
+    if (options.rpc || options.graphql || options.websocket) {
+      providers.push({
+        provide: APP_INTERCEPTOR,
+        useClass: RequestContextInterceptor,
+      });
+    }
+
+    if (options.openTelemetry) {
+      providers.push({
+        provide: APP_INTERCEPTOR,
+        useClass: OpenTelemetryContextInterceptor,
+      });
+    }
+
+    // The factory may return lifecycle hooks, so the interceptor reporting handler
+    // errors is always registered; it passes through when no hooks are declared
+    providers.push({
+      provide: APP_INTERCEPTOR,
+      useClass: ContextLifecycleInterceptor,
+    });
+
     if (options.extraProviders) {
       providers.push(...options.extraProviders);
     }
 
+    const contextScoped = options.contextScoped ?? [];
+    providers.push(...createContextScopedProviders(contextScoped));
+
     const module: DynamicModule = {
       module: RequestContextModule,
       imports: options.imports || [],
       providers,
-      exports: [RequestContextService, REQUEST_CONTEXT_SERVICE],
+      exports: [
+        RequestContextService,
+        REQUEST_CONTEXT_SERVICE,
+        HeaderPropagationService,
+        OpenTelemetryBridge,
+        ContextLogger,
+        ContextLifecycleService,
+        ...contextScoped,
+      ],
     };
 
     if (options.isGlobal !== false) {
@@ -189,6 +307,35 @@ export class RequestContextModule implements NestModule {
     return module;
   }
 
+  /**
+   * Registers context-scoped providers in a feature module
+   * Requires RequestContextModule.forRoot() or forRootAsync() (global by default).
+   * Constructor dependencies are resolved in this module, so pass the modules that
+   * export them; to use providers of the importing module itself, register
+   * `createContextScopedProviders([...])` in its `providers` instead.
+   *
+   * @param types - Classes to provide as context-scoped
+   * @param imports - Modules exporting the dependencies of those classes
+   * @returns A DynamicModule exporting the context-scoped providers
+   *
+   * @example
+   * ```typescript
+   * @Module({
+   *   imports: [RequestContextModule.forFeature([PermissionsService], [UsersModule])],
+   *   providers: [OrdersService],
+   * })
+   * export class OrdersModule {}
+   * ```
+   */
+  static forFeature(types: Type[], imports: ModuleMetadata['imports'] = []): DynamicModule {
+    return {
+      module: RequestContextModule,
+      imports,
+      providers: createContextScopedProviders(types),
+      exports: types,
+    };
+  }
+
   /**
    * Creates async providers for module configuration
    */
@@ -221,7 +368,7 @@ export class RequestContextModule implements NestModule {
         provide: REQUEST_CONTEXT_MODULE_OPTIONS,
         useFactory: async (...args: any[]) => {
           const config = await options.useFactory!(...args);
-          return RequestContextModule.applyDefaults(config);
+          return RequestContextModule.applyAsyncDefaults(config, options);
         },
         inject: options.inject || [],
       };
@@ -235,7 +382,7 @@ export class RequestContextModule implements NestModule {
       provide: REQUEST_CONTEXT_MODULE_OPTIONS,
       useFactory: async (optionsFactory: RequestContextOptionsFactory) => {
         const config = await optionsFactory.createRequestContextOptions();
-        return RequestContextModule.applyDefaults(config);
+        return RequestContextModule.applyAsyncDefaults(config, options);
       },
       inject,
     };
@@ -248,6 +395,11 @@ export class RequestContextModule implements NestModule {
   configure(consumer: MiddlewareConsumer): void {
     const options = this.options;
 
+    // The root module already applies the middleware
+    if (this.isFeatureModule) {
+      return;
+    }
+
     // Only configure middleware if setupType is 'middleware' (default)
     if (options.setupType && options.setupType !== 'middleware') {
       return;
@@ -274,7 +426,7 @@ export class RequestContextModule implements NestModule {
   private resolveAdapterType(
     options: RequestContextModuleOptions,
   ): 'express' | 'fastify' {
-    if (options.adapter && options.adapter !== 'auto') {
+    if (options.adapter === 'express' || options.adapter === 'fastify') {
       return options.adapter;
     }
 
@@ -1,6 +1,42 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
-import { AsyncLocalStorage } from 'async_hooks';
+import {
+  Injectable,
+  OnModuleInit,
+  OnApplicationShutdown,
+  Optional,
+  Inject,
+} from '@nestjs/common';
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
+import type { EventEmitter } from 'events';
 import { RequestAdapter, AdapterType, getAdapter } from './adapters';
+import { TRACE_KEY, TraceContext } from './tracing/trace-context';
+import { ChildContextStore } from './store';
+import { bindEmitterListeners } from './utils/bind.util';
+import { ContextKey, isContextKey, resolveKeyName, assertUniqueContextKeys } from './keys';
+import { ContextSnapshot, createSnapshot, readSnapshot } from './snapshot';
+import { ContextValidationRegistry, INITIAL_VALUES_KEY } from './validation';
+import { ContextWritePolicies, SETUP_COMPLETE_KEY } from './policies';
+import { LazyValues } from './lazy';
+import { RequestCache } from './cache/request-cache';
+import { AfterResponseTasks } from './after-response';
+import { DEADLINE_KEY, DeadlineState } from './deadline';
+import { REQUEST_CONTEXT_MODULE_OPTIONS } from './constants';
+import type {
+  AfterResponseTask,
+  AfterResponseTaskOptions,
+  ContextValueFactory,
+  LazyValueOptions,
+  RequestContextModuleOptions,
+  SnapshotCaptureOptions,
+  SnapshotOptions,
+} from './interfaces';
+
+/**
+ * Trace and span IDs of the active span
+ */
+export interface ActiveSpanContext {
+  traceId: string;
+  spanId: string;
+}
 
 /**
  * Internal keys used by the service
@@ -9,8 +45,32 @@ const INTERNAL_KEYS = {
   REQUEST: '__request__',
   ADAPTER: '__adapter__',
   ADAPTER_TYPE: '__adapter_type__',
+  RESPONSE: '__response__',
 } as const;
 
+/**
+ * Handle to a forked child context
+ * The child reads through to its parent; its writes stay local until merged
+ */
+export interface ForkedContext {
+  /**
+   * Runs a callback inside the child context
+   */
+  run<T>(callback: () => T): T;
+
+  /**
+   * Copies the child's writes and deletions into the parent context
+   *
+   * @param keys - Optional subset of keys to merge
+   */
+  merge(keys?: string[]): void;
+
+  /**
+   * Gets the values written in the child (excluding inherited and internal keys)
+   */
+  getOwnValues(): Record<string, any>;
+}
+
 /**
  * Core request context service using AsyncLocalStorage
  * Provides type-safe context storage throughout the request lifecycle
@@ -36,19 +96,54 @@ const INTERNAL_KEYS = {
  */
 @Injectable()
 export class RequestContextService<TStore extends Record<string, any> = Record<string, any>>
-  implements OnModuleInit
+  implements OnModuleInit, OnApplicationShutdown
 {
   private static instance: RequestContextService<any>;
   private readonly asyncLocalStorage = new AsyncLocalStorage<Map<string, any>>();
+  private spanContextResolver?: () => ActiveSpanContext | undefined;
+  private readonly snapshotOptions: SnapshotOptions;
+  private readonly validation: ContextValidationRegistry;
+  private readonly policies: ContextWritePolicies;
+  private readonly lazyValues: LazyValues;
+  private readonly afterResponseTasks: AfterResponseTasks;
+
+  /**
+   * Cache that lives and dies with the current request
+   */
+  readonly cache = new RequestCache(() => this.getStore());
+
+  constructor(
+    @Optional()
+    @Inject(REQUEST_CONTEXT_MODULE_OPTIONS)
+    moduleOptions?: RequestContextModuleOptions,
+  ) {
+    this.snapshotOptions = moduleOptions?.snapshot ?? {};
+    this.validation = new ContextValidationRegistry(moduleOptions?.validation);
+    this.policies = new ContextWritePolicies(moduleOptions?.policies);
+    this.lazyValues = new LazyValues(
+      (store, key, value) => this.writeResolvedValue(store, key, value),
+      moduleOptions?.computed,
+    );
+    this.afterResponseTasks = new AfterResponseTasks(moduleOptions?.afterResponse);
+  }
 
   /**
    * Called when the module is initialized
-   * Sets the static instance for use in decorators
+   * Sets the static instance for use in decorators and checks context keys for collisions
    */
   onModuleInit(): void {
+    assertUniqueContextKeys();
     RequestContextService.instance = this;
   }
 
+  /**
+   * Called on application shutdown
+   * Waits for running after-response tasks, at most `afterResponse.drainTimeout`
+   */
+  async onApplicationShutdown(): Promise<void> {
+    await this.afterResponseTasks.drain();
+  }
+
   /**
    * Gets the singleton instance of the service
    * Used by decorators to access the service outside of DI context
@@ -96,15 +191,8 @@ export class RequestContextService<TStore extends Record<string, any> = Record<s
    * ```
    */
   run<T>(callback: () => T, initialStore?: Partial<TStore>): T {
-    const store = new Map<string, any>();
-
-    if (initialStore) {
-      Object.entries(initialStore).forEach(([key, value]) => {
-        store.set(key, value);
-      });
-    }
-
-    return this.asyncLocalStorage.run(store, callback);
+    const store = this.createStore(initialStore);
+    return this.asyncLocalStorage.run(store, () => this.runToEnd(store, callback));
   }
 
   /**
@@ -118,15 +206,392 @@ export class RequestContextService<TStore extends Record<string, any> = Record<s
     callback: () => Promise<T>,
     initialStore?: Partial<TStore>,
   ): Promise<T> {
+    const store = this.createStore(initialStore);
+    return this.asyncLocalStorage.run(store, () => this.runToEnd(store, callback));
+  }
+
+  private createStore(initialStore?: Partial<TStore>): Map<string, any> {
     const store = new Map<string, any>();
 
     if (initialStore) {
       Object.entries(initialStore).forEach(([key, value]) => {
-        store.set(key, value);
+        store.set(key, this.policies.prepare(key, value));
+      });
+
+      // Validated by completeSetup() unless set() replaces them first
+      if (!this.validation.isEmpty) {
+        store.set(INITIAL_VALUES_KEY, new Map(store));
+      }
+    }
+
+    return store;
+  }
+
+  /**
+   * Runs the callback of a new context, then its after-response tasks once the
+   * callback (or the promise it returns) settles, if the context has no response
+   */
+  private runToEnd<T>(store: Map<string, any>, callback: () => T): T {
+    const end = () =>
+      this.afterResponseTasks.settle(store, store.get(INTERNAL_KEYS.RESPONSE) !== undefined);
+
+    let result: T;
+    try {
+      result = callback();
+    } catch (error) {
+      end();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.finally(end) as T;
+    }
+
+    end();
+    return result;
+  }
+
+  /**
+   * Creates a child of the current context without entering it
+   * Reads fall through to the current context; writes in the child are isolated
+   * until merged. Useful for fan-out where each branch gets its own scope.
+   *
+   * @param initialValues - Optional values set in the child
+   * @returns A handle to run code in the child and merge it back
+   * @throws Error if called outside of a context
+   * @throws ContextWriteError if an initial value overrides a locked key
+   *
+   * @example
+   * ```typescript
+   * const results = await Promise.all(
+   *   items.map((item) => {
+   *     const child = contextService.fork({ itemId: item.id });
+   *     return child.run(() => this.processItem(item));
+   *   }),
+   * );
+   * ```
+   */
+  fork(initialValues?: Partial<TStore>): ForkedContext {
+    const parent = this.getStore();
+    if (!parent) {
+      throw new Error(
+        'No active request context. Ensure middleware/guard/interceptor is configured.',
+      );
+    }
+
+    const store = new ChildContextStore(parent);
+    if (initialValues) {
+      Object.entries(initialValues).forEach(([key, value]) => {
+        this.writeValue(store, key, value);
+      });
+    }
+
+    return {
+      run: <T>(callback: () => T): T => this.asyncLocalStorage.run(store, callback),
+      merge: (keys?: string[]) => this.mergeChild(store, keys),
+      getOwnValues: () => RequestContextService.toPublicValues(store.ownEntries()),
+    };
+  }
+
+  /**
+   * Runs a callback in a child of the current context
+   * Shorthand for `fork(initialValues).run(callback)`
+   *
+   * @param callback - The function to run within the child context
+   * @param initialValues - Optional values set in the child
+   * @returns The return value of the callback
+   */
+  runChild<T>(callback: () => T, initialValues?: Partial<TStore>): T {
+    return this.fork(initialValues).run(callback);
+  }
+
+  /**
+   * Copies the current child context's writes and deletions into its parent
+   * Does nothing in a root context
+   *
+   * @param keys - Optional subset of keys to merge
+   */
+  merge(keys?: string[]): void {
+    const store = this.getStore();
+    if (store instanceof ChildContextStore) {
+      this.mergeChild(store, keys);
+    }
+  }
+
+  /**
+   * Copies a child's writes and deletions into its parent under the parent's write policies
+   * Every change is checked before any is applied, so a rejected merge changes nothing
+   *
+   * @throws ContextWriteError if a change violates the policy of its key in the parent
+   */
+  private mergeChild(store: ChildContextStore, keys?: string[]): void {
+    const { parent } = store;
+    const changes = store.getChanges(keys);
+    // Internal state (request, adapter, lazy values, deadline, ...) belongs to each context
+    const written = changes.written.filter(([key]) => !key.startsWith('__'));
+    const deleted = changes.deleted.filter((key) => !key.startsWith('__'));
+
+    deleted.forEach((key) => this.policies.assertWritable(parent, key, 'delete'));
+    written.forEach(([key]) => this.policies.assertWritable(parent, key, 'set'));
+
+    deleted.forEach((key) => {
+      parent.delete(key);
+      this.lazyValues.onDelete(parent, key);
+    });
+    written.forEach(([key, value]) => {
+      parent.set(key, this.policies.prepare(key, value));
+      this.lazyValues.onSet(parent, key);
+    });
+  }
+
+  /**
+   * Gets the nesting depth of the current context
+   *
+   * @returns 0 for a root context, 1 for its child, and so on (-1 outside a context)
+   */
+  getDepth(): number {
+    let store = this.getStore();
+    if (!store) return -1;
+
+    let depth = 0;
+    while (store instanceof ChildContextStore) {
+      store = store.parent;
+      depth++;
+    }
+    return depth;
+  }
+
+  /**
+   * Gets the values of every context in the parent chain
+   * Each entry holds only the values written at that level (excluding internal keys)
+   *
+   * @returns Values per level, starting with the current context and ending with the root
+   */
+  getParentChain(): Record<string, any>[] {
+    const chain: Record<string, any>[] = [];
+    let store = this.getStore();
+
+    while (store instanceof ChildContextStore) {
+      chain.push(RequestContextService.toPublicValues(store.ownEntries()));
+      store = store.parent;
+    }
+
+    if (store) {
+      chain.push(RequestContextService.toPublicValues(Array.from(store.entries())));
+    }
+
+    return chain;
+  }
+
+  /**
+   * Converts store entries to an object, excluding internal keys
+   */
+  private static toPublicValues(entries: [string, any][]): Record<string, any> {
+    const result: Record<string, any> = {};
+    entries.forEach(([key, value]) => {
+      if (!key.startsWith('__')) {
+        result[key] = value;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Binds a function to the current context
+   * The function runs in this context whenever it is called, e.g. as a callback
+   * handed to a library that schedules work outside the request's async scope
+   *
+   * @param fn - The function to bind
+   * @returns A function with the same signature
+   *
+   * @example
+   * ```typescript
+   * legacySdk.fetch(id, this.ctx.bind((err, result) => {
+   *   this.logger.log(this.ctx.get('requestId'));
+   * }));
+   * ```
+   */
+  bind<F extends (...args: any[]) => any>(fn: F): F {
+    return AsyncResource.bind(fn) as unknown as F;
+  }
+
+  /**
+   * Binds the listeners of an EventEmitter to the context active when each is added
+   * Listeners then see their own request's context whichever context emits the event
+   *
+   * @param emitter - A Node.js EventEmitter (e.g. a socket or stream)
+   * @returns The same emitter
+   *
+   * @example
+   * ```typescript
+   * const socket = this.ctx.bindEmitter(net.connect(port));
+   * socket.on('data', () => this.ctx.get('tenantId'));
+   * ```
+   */
+  bindEmitter<E extends EventEmitter>(emitter: E): E {
+    return bindEmitterListeners(emitter);
+  }
+
+  /**
+   * Makes an AsyncResource run its callbacks in the current context
+   * Useful for pools and SDKs that create one resource up front and run every task
+   * through `runInAsyncScope()`
+   *
+   * @param resource - The resource to wrap
+   * @returns The same resource (unchanged outside a context)
+   */
+  wrap<R extends AsyncResource>(resource: R): R {
+    const store = this.getStore();
+    if (!store) return resource;
+
+    const asyncLocalStorage = this.asyncLocalStorage;
+    const runInAsyncScope = resource.runInAsyncScope.bind(resource);
+
+    // Enter the resource's own async scope, then this context's store
+    resource.runInAsyncScope = (fn, thisArg, ...args) =>
+      runInAsyncScope(() => asyncLocalStorage.run(store, () => fn.apply(thisArg as any, args)));
+
+    return resource;
+  }
+
+  /**
+   * Returns the cached result for a key, or runs the factory and caches its result
+   * for the rest of the request. Rejected promises are removed so the next call retries.
+   * Outside a context the factory runs uncached.
+   *
+   * @param key - The cache key
+   * @param factory - Produces the value
+   * @returns The cached or produced value
+   *
+   * @example
+   * ```typescript
+   * const tenant = await this.ctx.memo(`tenant:${id}`, () => this.tenants.findById(id));
+   * ```
+   */
+  memo<T>(key: unknown, factory: () => T): T {
+    if (this.cache.has(key)) {
+      return this.cache.get<T>(key)!;
+    }
+
+    const value = factory();
+    this.cache.set(key, value);
+
+    if (value instanceof Promise) {
+      value.catch(() => {
+        if (this.cache.get(key) === value) {
+          this.cache.delete(key);
+        }
       });
     }
 
-    return this.asyncLocalStorage.run(store, callback);
+    return value;
+  }
+
+  /**
+   * Queues work that runs once the response has been flushed, in this request's context
+   * Tasks run concurrently; failures and timeouts are logged and never reach the client.
+   * Without a response, tasks run when the handler completes (microservices, WebSocket
+   * messages), when the callback given to `run()`/`runAsync()` settles (`@WithContext()`,
+   * `@RestoreJobContext()`, `restore()`, workers) or on `flushAfterResponse()`.
+   *
+   * @param task - The work to defer
+   * @param options - Name used in logs and a timeout overriding the module-wide one
+   * @throws Error if called outside of a context
+   *
+   * @example
+   * ```typescript
+   * this.ctx.afterResponse(() => this.audit.record('order.created', order), { name: 'audit' });
+   * ```
+   */
+  afterResponse(task: AfterResponseTask, options?: AfterResponseTaskOptions): void {
+    const store = this.getStore();
+    if (!store) {
+      throw new Error(
+        'No active request context. Ensure middleware/guard/interceptor is configured.',
+      );
+    }
+    this.afterResponseTasks.add(store, task, options, this.getResponse());
+  }
+
+  /**
+   * Runs the tasks queued with `afterResponse()` now
+   * Tasks queued afterwards run right away
+   *
+   * @returns Resolves when every task has settled or timed out
+   */
+  flushAfterResponse(): Promise<void> {
+    const store = this.getStore();
+    if (!store) return Promise.resolve();
+    return this.afterResponseTasks.flush(store);
+  }
+
+  /**
+   * Signal of the current request, aborted when its deadline passes or the client
+   * disconnects (with a ContextAbortedError as reason)
+   * Undefined outside a context or when the `deadline` option is off
+   *
+   * @example
+   * ```typescript
+   * const res = await fetch(url, { signal: this.ctx.signal });
+   * ```
+   */
+  get signal(): AbortSignal | undefined {
+    return this.getDeadlineState()?.controller.signal;
+  }
+
+  /**
+   * Gets the deadline of the current request
+   *
+   * @returns Epoch milliseconds, or undefined when the request has no deadline
+   */
+  getDeadline(): number | undefined {
+    return this.getDeadlineState()?.deadline;
+  }
+
+  /**
+   * Gets the time left before the deadline of the current request
+   *
+   * @returns Milliseconds (0 once the deadline has passed), or Infinity without a deadline
+   *
+   * @example
+   * ```typescript
+   * await this.db.query(sql, { timeout: Math.min(this.ctx.remainingTime(), 5_000) });
+   * ```
+   */
+  remainingTime(): number {
+    const deadline = this.getDeadline();
+    return deadline === undefined ? Infinity : Math.max(0, deadline - Date.now());
+  }
+
+  private getDeadlineState(): DeadlineState | undefined {
+    return this.getStore()?.get(DEADLINE_KEY);
+  }
+
+  /**
+   * Marks the end of context initialization
+   * Called by the middleware, guard and interceptor once `setup` has finished;
+   * checks that required keys are set (a lazy or computed value counts without being
+   * resolved), validates the initial values given to `run()` (values written with `set()`
+   * were validated then) and locks 'readonly-after-setup' keys
+   *
+   * @throws ContextValidationError for the first invalid or missing key set to throw
+   */
+  completeSetup(): void {
+    const store = this.getStore();
+    if (!store) return;
+
+    if (!this.validation.isEmpty) {
+      const initialValues: Map<string, any> = store.get(INITIAL_VALUES_KEY) ?? new Map();
+      const unvalidated = new Map(
+        Array.from(initialValues).filter(([key, value]) => store.get(key) === value),
+      );
+
+      store.delete(INITIAL_VALUES_KEY);
+      this.validation.validateStore(unvalidated, (key) => this.has(key));
+    }
+
+    // Locks 'readonly-after-setup' keys
+    store.set(SETUP_COMPLETE_KEY, true);
   }
 
   /**
@@ -139,69 +604,190 @@ export class RequestContextService<TStore extends Record<string, any> = Record<s
   /**
    * Sets a value in the current context
    *
-   * @param key - The key to set
+   * @param key - The key or typed key token to set
    * @param value - The value to store
    * @throws Error if called outside of a context
+   * @throws ContextValidationError if the value fails the schema registered for the key
+   * @throws ContextWriteError if the key's write policy forbids the write
    *
    * @example
    * ```typescript
    * contextService.set('user', { id: '123', name: 'John' });
+   * contextService.set(CURRENT_USER, user);
    * ```
    */
+  set<T>(key: ContextKey<T, any>, value: T): void;
   set<K extends keyof TStore>(key: K, value: TStore[K]): void;
   set(key: string, value: any): void;
-  set(key: string, value: any): void {
+  set(key: string | ContextKey<any>, value: any): void {
     const store = this.getStore();
     if (!store) {
       throw new Error(
         'No active request context. Ensure middleware/guard/interceptor is configured.',
       );
     }
-    store.set(key, value);
+    this.writeValue(store, resolveKeyName(key), value);
+  }
+
+  /**
+   * Validates a value, enforces the key's write policy and stores the value
+   */
+  private writeValue(store: Map<string, any>, key: string, value: any): void {
+    this.policies.assertWritable(store, key, 'set');
+    this.validation.validateValue(key, value);
+    store.set(key, this.policies.prepare(key, value));
+    this.lazyValues.onSet(store, key);
+  }
+
+  /**
+   * Validates and stores the resolved value of a lazy or computed key
+   * Unlike writeValue(), the key stays lazy so a change to its dependencies re-resolves it
+   */
+  private writeResolvedValue(store: Map<string, any>, key: string, value: any): any {
+    this.validation.validateValue(key, value);
+    const prepared = this.policies.prepare(key, value);
+    store.set(key, prepared);
+    return prepared;
+  }
+
+  /**
+   * Registers a value that is only produced when first read
+   * The factory runs at most once per request (until a key it depends on changes);
+   * async factories are resolved through `getAsync()`
+   *
+   * @param key - The key or typed key token to set
+   * @param factory - Produces the value
+   * @param options - Keys the value depends on
+   * @throws Error if called outside of a context
+   *
+   * @example
+   * ```typescript
+   * setup: (ctx, req) => {
+   *   ctx.set('userId', req.user?.id);
+   *   ctx.setLazy('user', () => users.findById(ctx.get('userId')), { dependsOn: ['userId'] });
+   * }
+   *
+   * const user = await this.ctx.getAsync<User>('user');
+   * ```
+   */
+  setLazy<T>(key: ContextKey<T, any>, factory: ContextValueFactory<T>, options?: LazyValueOptions): void;
+  setLazy<K extends keyof TStore>(
+    key: K,
+    factory: ContextValueFactory<TStore[K]>,
+    options?: LazyValueOptions,
+  ): void;
+  setLazy(key: string, factory: ContextValueFactory, options?: LazyValueOptions): void;
+  setLazy(
+    key: string | ContextKey<any>,
+    factory: ContextValueFactory,
+    options?: LazyValueOptions,
+  ): void {
+    const store = this.getStore();
+    if (!store) {
+      throw new Error(
+        'No active request context. Ensure middleware/guard/interceptor is configured.',
+      );
+    }
+
+    const name = resolveKeyName(key);
+    this.policies.assertWritable(store, name, 'set');
+    this.lazyValues.register(store, name, factory, options);
+    this.lazyValues.onDelete(store, name);
+  }
+
+  /**
+   * Gets a value, waiting for lazy and computed values with async factories
+   *
+   * @param key - The key or typed key token to retrieve
+   * @returns A promise of the value, the token's default, or undefined
+   */
+  getAsync<T, D extends T | undefined>(key: ContextKey<T, D>): Promise<T | D>;
+  getAsync<K extends keyof TStore>(key: K): Promise<TStore[K]>;
+  getAsync<T = any>(key: string): Promise<T | undefined>;
+  async getAsync(key: string | ContextKey<any>): Promise<any> {
+    const store = this.getStore();
+    const name = resolveKeyName(key);
+
+    if (store && !store.has(name)) {
+      const pending = this.lazyValues.resolveAsync(store, name, this);
+      if (pending) {
+        const value = await pending;
+        return value === undefined && isContextKey(key) ? key.defaultValue : value;
+      }
+    }
+
+    return this.get(key as string);
   }
 
   /**
    * Gets a value from the current context
    *
-   * @param key - The key to retrieve
-   * @returns The value or undefined if not found
+   * Lazy and computed values are resolved on first access; async ones read as
+   * undefined until resolved (use `getAsync()`)
+   *
+   * @param key - The key or typed key token to retrieve
+   * @returns The value, the token's default, or undefined if not found
    *
    * @example
    * ```typescript
    * const user = contextService.get('user');
+   * const locale = contextService.get(LOCALE);
    * ```
    */
+  get<T, D extends T | undefined>(key: ContextKey<T, D>): T | D;
   get<K extends keyof TStore>(key: K): TStore[K];
   get<T = any>(key: string): T | undefined;
-  get(key: string): any {
+  get(key: string | ContextKey<any>): any {
     const store = this.getStore();
-    return store?.get(key);
+    const name = resolveKeyName(key);
+
+    if (store?.has(name)) {
+      return store.get(name);
+    }
+
+    const lazy = store && this.lazyValues.resolve(store, name, this);
+    if (lazy && lazy.value !== undefined) {
+      return lazy.value;
+    }
+
+    return isContextKey(key) ? key.defaultValue : undefined;
   }
 
   /**
    * Checks if a key exists in the current context
    *
-   * @param key - The key to check
-   * @returns true if the key exists
+   * @param key - The key or typed key token to check
+   * @returns true if the key exists or has a lazy or computed value
    */
+  has(key: ContextKey<any>): boolean;
   has<K extends keyof TStore>(key: K): boolean;
   has(key: string): boolean;
-  has(key: string): boolean {
+  has(key: string | ContextKey<any>): boolean {
     const store = this.getStore();
-    return store?.has(key) ?? false;
+    if (!store) return false;
+
+    const name = resolveKeyName(key);
+    return store.has(name) || this.lazyValues.has(store, name);
   }
 
   /**
    * Deletes a value from the current context
    *
-   * @param key - The key to delete
+   * @param key - The key or typed key token to delete
    * @returns true if the key was deleted
+   * @throws ContextWriteError if the key's write policy forbids the delete
    */
+  delete(key: ContextKey<any>): boolean;
   delete<K extends keyof TStore>(key: K): boolean;
   delete(key: string): boolean;
-  delete(key: string): boolean {
+  delete(key: string | ContextKey<any>): boolean {
     const store = this.getStore();
-    return store?.delete(key) ?? false;
+    if (!store) return false;
+
+    const name = resolveKeyName(key);
+    this.policies.assertWritable(store, name, 'delete');
+    const deleted = store.delete(name);
+    return this.lazyValues.remove(store, name) || deleted;
   }
 
   /**
@@ -232,7 +818,7 @@ export class RequestContextService<TStore extends Record<string, any> = Record<s
   /**
    * Gets the entire store as an object
    *
-   * @returns A copy of the store contents (excluding internal keys)
+   * @returns A copy of the store contents (excluding internal keys and unresolved lazy values)
    */
   getAll(): TStore {
     const store = this.getStore();
@@ -250,14 +836,88 @@ export class RequestContextService<TStore extends Record<string, any> = Record<s
   }
 
   /**
-   * Clears all values in the current context
-   * Note: This also clears internal values like request and adapter
+   * Clears the values in the current context
+   * Internal values (request, adapter) and keys locked by their write policy are kept.
+   * Lazy values registered with `setLazy()` are dropped; computed values are produced afresh.
+   *
+   * @param options - Pass `force: true` to remove everything, including internal values;
+   * this bypasses the write policies, so locked keys are removed too
    */
-  clear(): void {
+  clear(options: { force?: boolean } = {}): void {
     const store = this.getStore();
-    if (store) {
+    if (!store) return;
+
+    if (options.force) {
       store.clear();
+    } else {
+      Array.from(store.keys()).forEach((key) => {
+        if (key.startsWith('__') || this.policies.isLocked(store, key)) return;
+        store.delete(key);
+      });
     }
+
+    this.lazyValues.reset(store);
+  }
+
+  /**
+   * Captures the current context values in a versioned, JSON-safe envelope
+   * Internal keys (request, adapter) are never captured. Dates, Maps, Sets, BigInts
+   * and values handled by the configured serializers survive the round trip.
+   *
+   * @param options - Optional allowlist of keys
+   * @returns The snapshot (empty values outside a context)
+   * @throws Error naming the key if a captured value contains a circular reference
+   *
+   * @example
+   * ```typescript
+   * await this.queue.add('export', { reportId, context: this.ctx.snapshot() });
+   * ```
+   */
+  snapshot(options: SnapshotCaptureOptions = {}): ContextSnapshot {
+    const all: Record<string, any> = this.getAll();
+    let values = all;
+
+    if (options.keys) {
+      values = {};
+      options.keys.forEach((key) => {
+        if (key in all) {
+          values[key] = all[key];
+        }
+      });
+    }
+
+    return createSnapshot(values, this.snapshotOptions);
+  }
+
+  /**
+   * Runs a callback within a new context holding the values of a snapshot
+   * Older snapshots are upgraded with the configured schema migrations
+   *
+   * @param snapshot - A snapshot, its JSON string, or a plain object of values
+   * @param callback - The function to run within the restored context
+   * @param options - Serializers and migrations that override the module options
+   * @returns The return value of the callback
+   *
+   * @example
+   * ```typescript
+   * @Process('export')
+   * handle(job: Job) {
+   *   return this.ctx.restore(job.data.context, () => this.exporter.run(job.data.reportId));
+   * }
+   * ```
+   */
+  restore<T>(
+    snapshot: ContextSnapshot | Record<string, any> | string,
+    callback: () => T,
+    options?: SnapshotOptions,
+  ): T {
+    const values = readSnapshot(snapshot, { ...this.snapshotOptions, ...options });
+
+    // Internal keys are never captured; drop any a crafted snapshot tries to inject
+    return this.run(
+      callback,
+      RequestContextService.toPublicValues(Object.entries(values)) as Partial<TStore>,
+    );
   }
 
   /**
@@ -275,6 +935,24 @@ export class RequestContextService<TStore extends Record<string, any> = Record<s
     this.set(INTERNAL_KEYS.ADAPTER as any, adapter);
   }
 
+  /**
+   * Sets the response object in the context
+   *
+   * @param response - The response object (Express response or Fastify reply)
+   */
+  setResponse<TResponse = any>(response: TResponse): void {
+    this.set(INTERNAL_KEYS.RESPONSE as any, response);
+  }
+
+  /**
+   * Gets the response object from the context
+   *
+   * @returns The response object or undefined (transports without a response)
+   */
+  getResponse<TResponse = any>(): TResponse | undefined {
+    return this.get(INTERNAL_KEYS.RESPONSE as any) as TResponse | undefined;
+  }
+
   /**
    * Gets the request object from the context
    *
@@ -358,4 +1036,40 @@ export class RequestContextService<TStore extends Record<string, any> = Record<s
 
     return adapter.getProperty(request, key);
   }
+
+  /**
+   * Registers a resolver for the active span of an external tracer
+   * Used by integrations such as OpenTelemetryBridge
+   *
+   * @param resolver - Returns the active span's IDs or undefined
+   */
+  setSpanContextResolver(resolver: (() => ActiveSpanContext | undefined) | undefined): void {
+    this.spanContextResolver = resolver;
+  }
+
+  /**
+   * Gets the trace ID of the active span
+   * Prefers the registered tracer (e.g. OpenTelemetry), then the parsed `trace` value
+   *
+   * @returns The trace ID or undefined
+   */
+  getTraceId(): string | undefined {
+    return (
+      this.spanContextResolver?.()?.traceId ??
+      this.get<TraceContext>(TRACE_KEY)?.traceId
+    );
+  }
+
+  /**
+   * Gets the ID of the active span
+   * Prefers the registered tracer (e.g. OpenTelemetry), then the parsed `trace` value
+   *
+   * @returns The span ID or undefined
+   */
+  getSpanId(): string | undefined {
+    return (
+      this.spanContextResolver?.()?.spanId ??
+      this.get<TraceContext>(TRACE_KEY)?.spanId
+    );
+  }
 }
@@ -0,0 +1,9 @@
+export {
+  REQUEST_ID_KEY,
+  RequestIdStore,
+  resolveRequestIdOptions,
+  isValidRequestId,
+  generateRequestId,
+  applyRequestId,
+} from './request-id';
+export { generateUuidV4, generateUuidV7, generateUlid } from './request-id.generators';
@@ -0,0 +1,53 @@
+import { randomBytes, randomUUID } from 'crypto';
+
+/**
+ * Crockford's base32 alphabet used by ULIDs
+ */
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Generates a random (version 4) UUID
+ */
+export function generateUuidV4(): string {
+  return randomUUID();
+}
+
+/**
+ * Generates a time-ordered (version 7) UUID
+ * 48 bits of millisecond timestamp followed by 74 random bits
+ */
+export function generateUuidV7(): string {
+  const bytes = randomBytes(16);
+  const timestamp = BigInt(Date.now());
+
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Number((timestamp >> BigInt(8 * (5 - i))) & BigInt(0xff));
+  }
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x70; // version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Generates a ULID (26 characters, lexicographically sortable)
+ */
+export function generateUlid(): string {
+  let time = Date.now();
+  let timePart = '';
+
+  for (let i = 0; i < 10; i++) {
+    timePart = ULID_ALPHABET[time % 32] + timePart;
+    time = Math.floor(time / 32);
+  }
+
+  const random = randomBytes(16);
+  let randomPart = '';
+  for (let i = 0; i < 16; i++) {
+    randomPart += ULID_ALPHABET[random[i] % 32];
+  }
+
+  return timePart + randomPart;
+}
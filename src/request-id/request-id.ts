@@ -0,0 +1,121 @@
+import { RequestContextService } from '../request-context.service';
+import { RequestAdapter } from '../adapters';
+import {
+  RequestIdGeneratorType,
+  RequestIdOptions,
+  RequestIdValidationOptions,
+} from '../interfaces';
+import { generateUlid, generateUuidV4, generateUuidV7 } from './request-id.generators';
+
+/**
+ * Context key the request ID is stored under
+ */
+export const REQUEST_ID_KEY = 'requestId' as const;
+
+/**
+ * Store shape contributed by the request ID feature
+ * Combine with your own store: `RequestContextService<MyStore & RequestIdStore>`
+ */
+export interface RequestIdStore {
+  [REQUEST_ID_KEY]: string;
+}
+
+const DEFAULT_HEADER = 'x-request-id';
+const DEFAULT_MAX_LENGTH = 128;
+const DEFAULT_PATTERN = /^[A-Za-z0-9._:-]+$/;
+
+const GENERATORS: Record<RequestIdGeneratorType, () => string> = {
+  uuid: generateUuidV4,
+  uuidv7: generateUuidV7,
+  ulid: generateUlid,
+};
+
+/**
+ * Normalizes the `requestId` module option
+ */
+export function resolveRequestIdOptions(
+  option: boolean | RequestIdOptions | undefined,
+): RequestIdOptions | undefined {
+  if (!option) return undefined;
+  return option === true ? {} : option;
+}
+
+/**
+ * Checks an inbound request ID against the validation rules
+ */
+export function isValidRequestId(
+  value: string,
+  validation: RequestIdValidationOptions | false = {},
+): boolean {
+  if (!value) return false;
+  if (validation === false) return true;
+
+  const maxLength = validation.maxLength ?? DEFAULT_MAX_LENGTH;
+  const pattern = validation.pattern ?? DEFAULT_PATTERN;
+
+  return value.length <= maxLength && pattern.test(value);
+}
+
+/**
+ * Generates a new request ID with the configured generator
+ */
+export function generateRequestId(options: RequestIdOptions, request?: any): string {
+  const generator = options.generator ?? 'uuid';
+  return typeof generator === 'function' ? generator(request) : GENERATORS[generator]();
+}
+
+/**
+ * Writes a header on an Express response, a Fastify reply or a raw ServerResponse
+ */
+function setResponseHeader(response: any, name: string, value: string): void {
+  if (!response) return;
+
+  if (typeof response.setHeader === 'function') {
+    if (!response.headersSent) {
+      response.setHeader(name, value);
+    }
+  } else if (typeof response.header === 'function') {
+    response.header(name, value);
+  }
+}
+
+/**
+ * Resolves the request ID for the current request and stores it in the context
+ * Reuses a valid inbound ID, otherwise generates one, then echoes it on the response
+ *
+ * @param contextService - The context service (must be inside an active context)
+ * @param adapter - The adapter used to read the inbound header
+ * @param request - The incoming request
+ * @param response - The outgoing response, if available
+ * @param options - Request ID options
+ * @returns The request ID
+ */
+export function applyRequestId(
+  contextService: RequestContextService,
+  adapter: RequestAdapter,
+  request: any,
+  response: any,
+  options: RequestIdOptions,
+): string {
+  const header = (options.header ?? DEFAULT_HEADER).toLowerCase();
+
+  let inbound = adapter.getHeader(request, header);
+  if (Array.isArray(inbound)) {
+    inbound = inbound[0];
+  }
+
+  const requestId =
+    options.trustIncoming !== false &&
+    typeof inbound === 'string' &&
+    isValidRequestId(inbound, options.validation)
+      ? inbound
+      : generateRequestId(options, request);
+
+  contextService.set(REQUEST_ID_KEY, requestId);
+
+  if (options.echo !== false) {
+    setResponseHeader(response, header, requestId);
+  }
+
+  return requestId;
+}
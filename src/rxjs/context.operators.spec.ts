@@ -0,0 +1,139 @@
+import 'reflect-metadata';
+import {
+  Observable,
+  Subject,
+  SchedulerAction,
+  asapScheduler,
+  delay,
+  firstValueFrom,
+  map,
+  mergeMap,
+  of,
+  take,
+  toArray,
+} from 'rxjs';
+import { RequestContextService } from '../request-context.service';
+import { bindContext, createContextScheduler, withRequestContext } from './context.operators';
+
+describe('context operators', () => {
+  let ctx: RequestContextService;
+
+  beforeEach(() => {
+    ctx = new RequestContextService();
+  });
+
+  const inContext = <T>(requestId: string, callback: () => T): T =>
+    ctx.run(callback, { requestId });
+
+  const currentId = () => ctx.get('requestId');
+
+  describe('bindContext', () => {
+    it('runs emissions in the context the operator was applied in', async () => {
+      const source = new Subject<number>();
+      const bound = inContext('a', () => source.pipe(bindContext(), map(() => currentId())));
+
+      const result = firstValueFrom(bound);
+      inContext('b', () => source.next(1));
+
+      await expect(result).resolves.toBe('a');
+    });
+
+    it('keeps the context across delay', async () => {
+      const bound = inContext('a', () =>
+        of(1).pipe(
+          delay(5),
+          bindContext(),
+          map(() => currentId()),
+        ),
+      );
+
+      await expect(firstValueFrom(bound)).resolves.toBe('a');
+    });
+  });
+
+  describe('withRequestContext', () => {
+    it('gives each subscriber of a hot subject its own context', async () => {
+      const source = new Subject<number>();
+      const updates = source.pipe(withRequestContext(), map(() => currentId()));
+
+      const a = inContext('a', () => firstValueFrom(updates));
+      const b = inContext('b', () => firstValueFrom(updates));
+      inContext('producer', () => source.next(1));
+
+      await expect(a).resolves.toBe('a');
+      await expect(b).resolves.toBe('b');
+    });
+
+    it('keeps the subscriber context through mergeMap', async () => {
+      const source = new Subject<number>();
+      const read = () =>
+        source.pipe(
+          withRequestContext(),
+          mergeMap((value) => of(value).pipe(delay(value))),
+          map(() => currentId()),
+          take(2),
+          toArray(),
+        );
+
+      const a = inContext('a', () => firstValueFrom(read()));
+      const b = inContext('b', () => firstValueFrom(read()));
+      inContext('producer', () => {
+        source.next(5);
+        source.next(1);
+      });
+
+      await expect(a).resolves.toEqual(['a', 'a']);
+      await expect(b).resolves.toEqual(['b', 'b']);
+    });
+  });
+
+  describe('createContextScheduler', () => {
+    it('runs scheduled work in the context it was created in', async () => {
+      const scheduler = inContext('a', () => createContextScheduler(asapScheduler));
+
+      const seen = await new Promise<string>((resolve) => {
+        inContext('b', () => scheduler.schedule(() => resolve(currentId())));
+      });
+
+      expect(seen).toBe('a');
+    });
+
+    it('keeps the context when work reschedules itself', async () => {
+      const scheduler = inContext('a', () => createContextScheduler());
+      const seen: string[] = [];
+
+      await new Promise<void>((resolve) => {
+        inContext('b', () =>
+          scheduler.schedule(
+            function (this: SchedulerAction<number>, count?: number) {
+              seen.push(currentId());
+              if (count! < 3) {
+                this.schedule(count! + 1, 1);
+              } else {
+                resolve();
+              }
+            },
+            1,
+            0,
+          ),
+        );
+      });
+
+      expect(seen).toEqual(['a', 'a', 'a', 'a']);
+    });
+
+    it('applies to operators that take a scheduler', async () => {
+      const scheduler = inContext('a', () => createContextScheduler());
+      const source = new Observable<number>((subscriber) => {
+        subscriber.next(1);
+        subscriber.complete();
+      });
+
+      const result = inContext('b', () =>
+        firstValueFrom(source.pipe(delay(5, scheduler), map(() => currentId()))),
+      );
+
+      await expect(result).resolves.toBe('a');
+    });
+  });
+});
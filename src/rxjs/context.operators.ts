@@ -0,0 +1,94 @@
+import { AsyncResource } from 'async_hooks';
+import {
+  Observable,
+  MonoTypeOperatorFunction,
+  SchedulerLike,
+  SchedulerAction,
+  Subscription,
+  asyncScheduler,
+} from 'rxjs';
+
+/**
+ * Subscribes to a source and delivers every notification inside an async resource's scope
+ */
+function runInResource<T>(source: Observable<T>, resource: AsyncResource): Observable<T> {
+  return new Observable<T>((subscriber) =>
+    resource.runInAsyncScope(() =>
+      source.subscribe({
+        next: (value) => resource.runInAsyncScope(() => subscriber.next(value)),
+        error: (error) => resource.runInAsyncScope(() => subscriber.error(error)),
+        complete: () => resource.runInAsyncScope(() => subscriber.complete()),
+      }),
+    ),
+  );
+}
+
+/**
+ * Binds an observable to the context that is active when the operator is applied
+ * The subscription and every emission run in that context, even when the observable
+ * is subscribed later or emits from a timer, subject or shared replay elsewhere
+ *
+ * @returns An operator that re-enters the captured context
+ *
+ * @example
+ * ```typescript
+ * // Created during a request, subscribed by a long-lived consumer
+ * this.events$ = this.bus.pipe(filter(isOrderEvent), bindContext());
+ * ```
+ */
+export function bindContext<T>(): MonoTypeOperatorFunction<T> {
+  const resource = new AsyncResource('RequestContextObservable');
+  return (source) => runInResource(source, resource);
+}
+
+/**
+ * Delivers emissions in the context that is active when each subscriber subscribes
+ * Use with hot sources (subjects, shareReplay) whose values are produced in
+ * another context, so that every subscriber sees its own request's context
+ *
+ * @returns An operator that re-enters each subscriber's context
+ *
+ * @example
+ * ```typescript
+ * return this.updates$.pipe(withRequestContext(), map((update) => this.decorate(update)));
+ * ```
+ */
+export function withRequestContext<T>(): MonoTypeOperatorFunction<T> {
+  return (source) =>
+    new Observable<T>((subscriber) =>
+      runInResource(source, new AsyncResource('RequestContextObservable')).subscribe(subscriber),
+    );
+}
+
+/**
+ * Wraps a scheduler so that all work it runs happens in the context that is active
+ * when the wrapper is created
+ *
+ * @param scheduler - The scheduler to wrap
+ * @returns A scheduler for `observeOn`, `subscribeOn`, `delay`, `debounceTime` and others
+ *
+ * @example
+ * ```typescript
+ * source$.pipe(observeOn(createContextScheduler(asapScheduler)));
+ * ```
+ */
+export function createContextScheduler(scheduler: SchedulerLike = asyncScheduler): SchedulerLike {
+  const resource = new AsyncResource('RequestContextScheduler');
+
+  return {
+    now: () => scheduler.now(),
+    schedule<TState>(
+      work: (this: SchedulerAction<TState>, state?: TState) => void,
+      delay?: number,
+      state?: TState,
+    ): Subscription {
+      return scheduler.schedule<TState>(
+        function (this: SchedulerAction<TState>, actionState?: TState) {
+          resource.runInAsyncScope(work, this, actionState);
+        },
+        delay,
+        state as TState,
+      );
+    },
+  };
+}
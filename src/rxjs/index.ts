@@ -0,0 +1 @@
+export { bindContext, withRequestContext, createContextScheduler } from './context.operators';
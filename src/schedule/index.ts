@@ -0,0 +1,5 @@
+export {
+  WithContext,
+  WithContextOptions,
+  ScheduledContextStore,
+} from './with-context.decorator';
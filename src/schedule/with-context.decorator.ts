@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import { RequestContextService } from '../request-context.service';
+import { copyMetadata } from '../utils';
+
+/**
+ * Metadata key under which @nestjs/schedule stores the job name
+ */
+const SCHEDULER_NAME = 'SCHEDULER_NAME';
+
+/**
+ * Store shape of a scheduled run
+ * Combine with your own store: `RequestContextService<MyStore & ScheduledContextStore>`
+ */
+export interface ScheduledContextStore {
+  /** The job name (`@Cron({ name })` or `ClassName.methodName`) */
+  jobName: string;
+  /** Unique ID of this run */
+  runId: string;
+  /** Synthetic source marker */
+  source: string;
+}
+
+/**
+ * Options for @WithContext()
+ */
+export interface WithContextOptions {
+  /**
+   * Job name stored under `jobName`
+   * Defaults to the name given to @Cron/@Interval/@Timeout, then `ClassName.methodName`
+   */
+  name?: string;
+
+  /**
+   * Source marker stored under `source`
+   * @default 'cron'
+   */
+  source?: string;
+
+  /**
+   * Extra values set in every run's context
+   */
+  initialValues?: Record<string, any>;
+}
+
+/**
+ * Method decorator that runs each invocation in a fresh context
+ * Intended for @nestjs/schedule handlers (@Cron, @Interval, @Timeout), which run
+ * outside any request. The context holds `jobName`, `runId` and `source: 'cron'`,
+ * so logging and auditing code can read it like HTTP context. Setup is complete when the
+ * handler starts: the initial values are validated and 'readonly-after-setup' keys are locked.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class ReportsJob {
+ *   constructor(private readonly ctx: RequestContextService<ScheduledContextStore>) {}
+ *
+ *   @Cron('0 * * * *', { name: 'hourly-report' })
+ *   @WithContext()
+ *   async run() {
+ *     this.ctx.get('runId');
+ *     this.ctx.set('tenantId', 'system');
+ *   }
+ * }
+ * ```
+ */
+export function WithContext(options: WithContextOptions = {}): MethodDecorator {
+  return (target, propertyKey, descriptor: PropertyDescriptor) => {
+    const original = descriptor.value;
+    const defaultName = `${target.constructor.name}.${String(propertyKey)}`;
+
+    const wrapped = function (this: any, ...args: any[]) {
+      const contextService = RequestContextService.getInstance();
+      const jobName =
+        options.name ??
+        Reflect.getMetadata(SCHEDULER_NAME, wrapped) ??
+        Reflect.getMetadata(SCHEDULER_NAME, original) ??
+        defaultName;
+
+      return contextService.run(
+        () => {
+          contextService.completeSetup();
+          return original.apply(this, args);
+        },
+        {
+          ...options.initialValues,
+          jobName,
+          runId: randomUUID(),
+          source: options.source ?? 'cron',
+        },
+      );
+    };
+
+    copyMetadata(original, wrapped);
+    descriptor.value = wrapped;
+    return descriptor;
+  };
+}
@@ -0,0 +1,141 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  createSnapshot,
+  readSnapshot,
+} from './context-snapshot';
+import { createClassSerializer } from './snapshot.serializers';
+
+class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {}
+}
+
+/**
+ * Sends a snapshot through JSON like a queue or a worker message would
+ */
+const transport = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe('context snapshots', () => {
+  it('wraps the values in a versioned envelope', () => {
+    const snapshot = createSnapshot({ tenantId: 'acme' }, { schemaVersion: 3 });
+
+    expect(snapshot).toEqual({
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      schemaVersion: 3,
+      createdAt: expect.any(String),
+      values: { tenantId: 'acme' },
+    });
+  });
+
+  it('round-trips the built-in types and objects with a $type property', () => {
+    const values = {
+      since: new Date('2024-01-01T00:00:00.000Z'),
+      limits: new Map([['daily', 10n]]),
+      roles: new Set(['admin']),
+      tagged: { $type: 'Date', value: 'not a date' },
+    };
+
+    expect(readSnapshot(transport(createSnapshot(values)))).toEqual(values);
+  });
+
+  it('uses custom serializers before the built-in ones', () => {
+    const options = { serializers: [createClassSerializer(Money)] };
+    const snapshot = transport(createSnapshot({ price: new Money(10, 'EUR') }, options));
+
+    const { price } = readSnapshot(snapshot, options);
+
+    expect(snapshot.values.price).toEqual({
+      $type: 'Money',
+      value: { amount: 10, currency: 'EUR' },
+    });
+    expect(price).toBeInstanceOf(Money);
+    expect(price).toEqual(new Money(10, 'EUR'));
+  });
+
+  it('rejects tagged values without a registered serializer', () => {
+    const snapshot = transport(
+      createSnapshot(
+        { price: new Money(10, 'EUR') },
+        { serializers: [createClassSerializer(Money)] },
+      ),
+    );
+
+    expect(() => readSnapshot(snapshot)).toThrow('Register a serializer');
+  });
+
+  it('rejects envelopes written by a newer release', () => {
+    const snapshot = { ...createSnapshot({}), version: SNAPSHOT_VERSION + 1 };
+
+    expect(() => readSnapshot(snapshot)).toThrow('newer than the supported version');
+  });
+
+  it('migrates older schema versions step by step', () => {
+    const snapshot = JSON.stringify(createSnapshot({ tenant: 'acme', user: 42 }));
+
+    const values = readSnapshot(snapshot, {
+      schemaVersion: 3,
+      migrations: {
+        1: ({ tenant, ...rest }) => ({ ...rest, tenantId: tenant }),
+        2: ({ user, ...rest }) => ({ ...rest, userId: String(user) }),
+      },
+    });
+
+    expect(values).toEqual({ tenantId: 'acme', userId: '42' });
+  });
+
+  it('rejects a snapshot with a missing migration', () => {
+    const snapshot = createSnapshot({ tenant: 'acme' });
+
+    expect(() => readSnapshot(snapshot, { schemaVersion: 2 })).toThrow(
+      'No snapshot migration from schema version 1 to 2.',
+    );
+  });
+
+  it('reads plain objects of values as schema version 1', () => {
+    expect(readSnapshot({ tenantId: 'acme' })).toEqual({ tenantId: 'acme' });
+  });
+
+  describe('circular references', () => {
+    it('names the key and the path of the cycle', () => {
+      const manager: any = { name: 'Ada', reports: [] };
+      manager.reports.push({ name: 'Bob', manager });
+
+      expect(() => createSnapshot({ tenantId: 'acme', user: manager })).toThrow(
+        'Cannot snapshot context key "user": the value at user.reports[0].manager is a circular reference.',
+      );
+    });
+
+    it('detects cycles through Maps and Sets', () => {
+      const registry = new Map<string, unknown>();
+      registry.set('self', new Set([registry]));
+
+      expect(() => createSnapshot({ registry })).toThrow('context key "registry"');
+    });
+
+    it('accepts objects shared between keys and siblings', () => {
+      const tenant = { id: 'acme' };
+
+      const values = readSnapshot(createSnapshot({ tenant, pair: [tenant, tenant] }));
+
+      expect(values).toEqual({ tenant, pair: [tenant, tenant] });
+    });
+  });
+
+  it('restores the values in a new context', () => {
+    const ctx = new RequestContextService();
+    const snapshot = ctx.run(() => ctx.snapshot({ keys: ['tenantId'] }), {
+      tenantId: 'acme',
+      token: 'secret',
+    });
+
+    const restored = ctx.restore(transport(snapshot), () => ctx.getAll());
+
+    expect(restored).toEqual({ tenantId: 'acme' });
+  });
+});
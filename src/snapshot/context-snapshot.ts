@@ -0,0 +1,276 @@
+import { SnapshotOptions, SnapshotSerializer } from '../interfaces';
+import { DEFAULT_SNAPSHOT_SERIALIZERS } from './snapshot.serializers';
+
+/**
+ * Format marker of snapshot envelopes
+ */
+export const SNAPSHOT_FORMAT = 'nest-req-ctx/snapshot';
+
+/**
+ * Current envelope version
+ * Envelopes with a higher version were written by a newer release and are rejected
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Property that tags a serialized value with its serializer type
+ */
+const TYPE_TAG = '$type';
+
+/**
+ * Type tag for plain objects that have their own `$type` property
+ */
+const ESCAPED_OBJECT_TYPE = 'Object';
+
+/**
+ * Versioned, JSON-safe snapshot of context values
+ *
+ * @example
+ * ```json
+ * {
+ *   "format": "nest-req-ctx/snapshot",
+ *   "version": 1,
+ *   "schemaVersion": 1,
+ *   "createdAt": "2024-05-01T10:00:00.000Z",
+ *   "values": { "tenantId": "acme", "since": { "$type": "Date", "value": "2024-01-01T00:00:00.000Z" } }
+ * }
+ * ```
+ */
+export interface ContextSnapshot {
+  /** Format marker, always SNAPSHOT_FORMAT */
+  format: typeof SNAPSHOT_FORMAT;
+  /** Envelope version */
+  version: number;
+  /** Version of the application's context shape (see SnapshotOptions.schemaVersion) */
+  schemaVersion: number;
+  /** When the snapshot was taken (ISO 8601) */
+  createdAt: string;
+  /** The encoded context values */
+  values: Record<string, unknown>;
+}
+
+/**
+ * Checks if a value is a snapshot envelope
+ */
+export function isContextSnapshot(value: unknown): value is ContextSnapshot {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as ContextSnapshot).format === SNAPSHOT_FORMAT &&
+    typeof (value as ContextSnapshot).version === 'number'
+  );
+}
+
+/**
+ * Gets the serializers to use, custom ones first
+ */
+function resolveSerializers(options: SnapshotOptions): SnapshotSerializer[] {
+  return [...(options.serializers ?? []), ...DEFAULT_SNAPSHOT_SERIALIZERS];
+}
+
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Walk state of one captured key
+ */
+interface EncodeState {
+  serializers: SnapshotSerializer[];
+  /** The context key being encoded, named in errors */
+  key: string;
+  /** Objects on the path from the key's value to the current one */
+  ancestors: Set<object>;
+}
+
+/**
+ * Encodes a value into its JSON-safe form
+ * Functions and symbols are dropped; unknown class instances lose their prototype
+ *
+ * @throws Error naming the key and path if the value contains a circular reference
+ */
+function encodeValue(value: unknown, state: EncodeState, path: string): unknown {
+  if (value === null || typeof value !== 'object') {
+    return encodeNode(value, state, path);
+  }
+
+  if (state.ancestors.has(value)) {
+    throw new Error(
+      `Cannot snapshot context key "${state.key}": the value at ${path} is a circular reference.`,
+    );
+  }
+
+  state.ancestors.add(value);
+  try {
+    return encodeNode(value, state, path);
+  } finally {
+    state.ancestors.delete(value);
+  }
+}
+
+function encodeNode(value: unknown, state: EncodeState, path: string): unknown {
+  const encode = (nested: unknown, nestedPath = path) => encodeValue(nested, state, nestedPath);
+
+  const serializer = state.serializers.find((candidate) => candidate.test(value));
+  if (serializer) {
+    return {
+      [TYPE_TAG]: serializer.type,
+      value: serializer.serialize(value, (nested) => encode(nested)),
+    };
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => encode(entry, `${path}[${index}]`) ?? null);
+  }
+
+  if (!isPlainObject(value) && typeof (value as any).toJSON === 'function') {
+    return encode((value as any).toJSON());
+  }
+
+  const encoded: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    const encodedEntry = encode(entry, `${path}.${key}`);
+    if (encodedEntry !== undefined) {
+      encoded[key] = encodedEntry;
+    }
+  });
+
+  // Keep user objects that happen to have a `$type` property from being read as tagged values
+  return TYPE_TAG in encoded ? { [TYPE_TAG]: ESCAPED_OBJECT_TYPE, value: encoded } : encoded;
+}
+
+/**
+ * Decodes a value from its JSON-safe form
+ *
+ * @throws Error if a tagged value has no registered serializer
+ */
+function decodeValue(value: unknown, serializers: SnapshotSerializer[]): unknown {
+  const decode = (nested: unknown) => decodeValue(nested, serializers);
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+
+  const record = value as Record<string, unknown>;
+  const type = record[TYPE_TAG];
+
+  if (typeof type === 'string') {
+    if (type === ESCAPED_OBJECT_TYPE) {
+      return decodeEntries(record.value as Record<string, unknown>, decode);
+    }
+
+    const serializer = serializers.find((candidate) => candidate.type === type);
+    if (!serializer) {
+      throw new Error(
+        `Cannot restore snapshot value of type "${type}". Register a serializer for it in the snapshot options.`,
+      );
+    }
+    return serializer.deserialize(record.value, decode);
+  }
+
+  return decodeEntries(record, decode);
+}
+
+function decodeEntries(
+  record: Record<string, unknown>,
+  decode: (value: unknown) => unknown,
+): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, entry]) => {
+    decoded[key] = decode(entry);
+  });
+  return decoded;
+}
+
+/**
+ * Creates a snapshot envelope from context values
+ *
+ * @param values - The values to capture
+ * @param options - Serializers and schema version
+ * @returns The snapshot envelope
+ * @throws Error if a value contains a circular reference
+ */
+export function createSnapshot(
+  values: Record<string, unknown>,
+  options: SnapshotOptions = {},
+): ContextSnapshot {
+  const serializers = resolveSerializers(options);
+  const encoded: Record<string, unknown> = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    const encodedValue = encodeValue(value, { serializers, key, ancestors: new Set() }, key);
+    if (encodedValue !== undefined) {
+      encoded[key] = encodedValue;
+    }
+  });
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    schemaVersion: options.schemaVersion ?? 1,
+    createdAt: new Date().toISOString(),
+    values: encoded,
+  };
+}
+
+/**
+ * Reads context values from a snapshot
+ * Accepts an envelope, its JSON string, or a plain object of values
+ * (e.g. job data captured before snapshots existed), which is treated as schema version 1
+ *
+ * @param snapshot - The snapshot to read
+ * @param options - Serializers, schema version and migrations
+ * @returns The decoded and migrated values
+ * @throws Error if the envelope is newer than this release or a migration is missing
+ */
+export function readSnapshot(
+  snapshot: ContextSnapshot | Record<string, unknown> | string,
+  options: SnapshotOptions = {},
+): Record<string, any> {
+  const parsed: unknown = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid context snapshot: expected an object.');
+  }
+
+  const serializers = resolveSerializers(options);
+  let values: Record<string, any>;
+  let schemaVersion: number;
+
+  if (isContextSnapshot(parsed)) {
+    if (parsed.version > SNAPSHOT_VERSION) {
+      throw new Error(
+        `Context snapshot version ${parsed.version} is newer than the supported version ${SNAPSHOT_VERSION}.`,
+      );
+    }
+    values = decodeEntries(parsed.values ?? {}, (value) => decodeValue(value, serializers));
+    schemaVersion = parsed.schemaVersion ?? 1;
+  } else {
+    values = decodeEntries(parsed as Record<string, unknown>, (value) =>
+      decodeValue(value, serializers),
+    );
+    schemaVersion = 1;
+  }
+
+  const targetVersion = options.schemaVersion ?? 1;
+  while (schemaVersion < targetVersion) {
+    const migrate = options.migrations?.[schemaVersion];
+    if (!migrate) {
+      throw new Error(
+        `No snapshot migration from schema version ${schemaVersion} to ${schemaVersion + 1}.`,
+      );
+    }
+    values = migrate(values);
+    schemaVersion++;
+  }
+
+  return values;
+}
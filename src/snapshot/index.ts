@@ -0,0 +1,17 @@
+export {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  ContextSnapshot,
+  isContextSnapshot,
+  createSnapshot,
+  readSnapshot,
+} from './context-snapshot';
+export {
+  ClassSerializerOptions,
+  dateSerializer,
+  mapSerializer,
+  setSerializer,
+  bigintSerializer,
+  DEFAULT_SNAPSHOT_SERIALIZERS,
+  createClassSerializer,
+} from './snapshot.serializers';
@@ -0,0 +1,108 @@
+import { SnapshotSerializer } from '../interfaces';
+
+/**
+ * Serializes Date instances as ISO strings
+ */
+export const dateSerializer: SnapshotSerializer<Date> = {
+  type: 'Date',
+  test: (value): value is Date => value instanceof Date,
+  serialize: (value) => value.toISOString(),
+  deserialize: (data) => new Date(data),
+};
+
+/**
+ * Serializes Map instances as entry lists
+ */
+export const mapSerializer: SnapshotSerializer<Map<unknown, unknown>> = {
+  type: 'Map',
+  test: (value): value is Map<unknown, unknown> => value instanceof Map,
+  serialize: (value, encode) => Array.from(value, ([key, entry]) => [encode(key), encode(entry)]),
+  deserialize: (data: [unknown, unknown][], decode) =>
+    new Map(data.map(([key, entry]) => [decode(key), decode(entry)])),
+};
+
+/**
+ * Serializes Set instances as value lists
+ */
+export const setSerializer: SnapshotSerializer<Set<unknown>> = {
+  type: 'Set',
+  test: (value): value is Set<unknown> => value instanceof Set,
+  serialize: (value, encode) => Array.from(value, (entry) => encode(entry)),
+  deserialize: (data: unknown[], decode) => new Set(data.map((entry) => decode(entry))),
+};
+
+/**
+ * Serializes bigint values as decimal strings
+ */
+export const bigintSerializer: SnapshotSerializer<bigint> = {
+  type: 'BigInt',
+  test: (value): value is bigint => typeof value === 'bigint',
+  serialize: (value) => value.toString(),
+  deserialize: (data) => BigInt(data),
+};
+
+/**
+ * Serializers that are always registered, after any custom ones
+ */
+export const DEFAULT_SNAPSHOT_SERIALIZERS: SnapshotSerializer[] = [
+  dateSerializer,
+  mapSerializer,
+  setSerializer,
+  bigintSerializer,
+];
+
+/**
+ * Options for createClassSerializer
+ */
+export interface ClassSerializerOptions<T> {
+  /**
+   * Type tag written into the snapshot
+   * @default The class name
+   */
+  type?: string;
+
+  /**
+   * Converts an instance to a JSON-safe form
+   * @default Copies the instance's own enumerable properties
+   */
+  serialize?: (value: T) => unknown;
+
+  /**
+   * Rebuilds an instance from its serialized form
+   * @default Creates an object with the class prototype and assigns the properties
+   */
+  deserialize?: (data: any) => T;
+}
+
+/**
+ * Creates a serializer that keeps the prototype of class instances across a snapshot
+ *
+ * @param type - The class
+ * @param options - Optional type tag and conversion functions
+ * @returns A serializer for instances of the class
+ *
+ * @example
+ * ```typescript
+ * RequestContextModule.forRoot({
+ *   snapshot: { serializers: [createClassSerializer(TenantSettings)] },
+ * });
+ * ```
+ */
+export function createClassSerializer<T extends object>(
+  type: abstract new (...args: any[]) => T,
+  options: ClassSerializerOptions<T> = {},
+): SnapshotSerializer<T> {
+  return {
+    type: options.type ?? type.name,
+    test: (value): value is T => value instanceof type,
+    serialize: (value, encode) =>
+      options.serialize ? encode(options.serialize(value)) : encode({ ...value }),
+    deserialize: (data, decode) => {
+      const decoded = decode(data);
+      if (options.deserialize) {
+        return options.deserialize(decoded);
+      }
+      return Object.assign(Object.create(type.prototype), decoded) as T;
+    },
+  };
+}
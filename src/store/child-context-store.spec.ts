@@ -0,0 +1,129 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { ContextWriteError } from '../policies';
+
+describe('child contexts', () => {
+  let ctx: RequestContextService;
+
+  beforeEach(() => {
+    ctx = new RequestContextService({ policies: { orderId: 'writeOnce' } });
+  });
+
+  it('reads through to the parent and keeps writes local until merged', () => {
+    ctx.run(
+      () => {
+        const child = ctx.fork({ step: 'export' });
+
+        child.run(() => {
+          expect(ctx.get('tenantId')).toBe('acme');
+          ctx.set('tenantId', 'globex');
+        });
+
+        expect(ctx.get('tenantId')).toBe('acme');
+        expect(ctx.get('step')).toBeUndefined();
+        expect(child.getOwnValues()).toEqual({ step: 'export', tenantId: 'globex' });
+
+        child.merge();
+
+        expect(ctx.get('tenantId')).toBe('globex');
+        expect(ctx.get('step')).toBe('export');
+      },
+      { tenantId: 'acme' },
+    );
+  });
+
+  it('merges only the selected keys', () => {
+    ctx.run(() => {
+      ctx.runChild(() => {
+        ctx.set('warnings', ['slow']);
+        ctx.set('scratch', true);
+        ctx.merge(['warnings']);
+      });
+
+      expect(ctx.get('warnings')).toEqual(['slow']);
+      expect(ctx.has('scratch')).toBe(false);
+    });
+  });
+
+  it('merges deletions', () => {
+    ctx.run(
+      () => {
+        ctx.runChild(() => {
+          ctx.delete('draft');
+          ctx.merge();
+        });
+
+        expect(ctx.has('draft')).toBe(false);
+      },
+      { draft: true },
+    );
+  });
+
+  it('never copies internal state into the parent', () => {
+    const request = { headers: {} };
+
+    ctx.run(() => {
+      ctx.setRequest(request, 'express');
+      ctx.setLazy('user', () => 'parent-user');
+
+      ctx.runChild(() => {
+        ctx.setRequest({ headers: { child: 'yes' } }, 'express');
+        ctx.setLazy('user', () => 'child-user');
+        ctx.set('tenantId', 'acme');
+        ctx.merge();
+      });
+
+      expect(ctx.getRequest()).toBe(request);
+      expect(ctx.get('user')).toBe('parent-user');
+      expect(ctx.get('tenantId')).toBe('acme');
+    });
+  });
+
+  it('rejects a merge that breaks a write policy and applies none of it', () => {
+    ctx.run(() => {
+      const first = ctx.fork();
+      const second = ctx.fork();
+      first.run(() => ctx.set('orderId', 'first'));
+      second.run(() => {
+        ctx.set('orderId', 'second');
+        ctx.set('note', 'from second');
+      });
+
+      first.merge();
+
+      expect(() => second.merge()).toThrow(ContextWriteError);
+      expect(ctx.get('orderId')).toBe('first');
+      expect(ctx.has('note')).toBe(false);
+    });
+  });
+
+  it('keeps a forced clear in the child', () => {
+    ctx.run(
+      () => {
+        ctx.setRequest({ headers: {} }, 'express');
+
+        ctx.runChild(() => {
+          ctx.clear({ force: true });
+          expect(ctx.has('tenantId')).toBe(false);
+          ctx.merge();
+        });
+
+        expect(ctx.get('tenantId')).toBe('acme');
+        expect(ctx.getRequest()).toBeDefined();
+      },
+      { tenantId: 'acme' },
+    );
+  });
+
+  it('queues after-response tasks on the request', async () => {
+    const ran: string[] = [];
+
+    await ctx.runAsync(async () => {
+      ctx.set('tenantId', 'acme');
+      ctx.runChild(() => ctx.afterResponse(() => void ran.push(ctx.get('tenantId'))));
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(ran).toEqual(['acme']);
+  });
+});
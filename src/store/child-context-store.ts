@@ -0,0 +1,136 @@
+/**
+ * Copy-on-write context store for nested and forked contexts
+ *
+ * Reads fall through to the parent store; writes and deletes stay local to the
+ * child until the service merges them back. Extends Map so the service can treat
+ * root and child stores the same way.
+ */
+export class ChildContextStore extends Map<string, any> {
+  /** Parent keys hidden by delete() in this child */
+  private readonly deletedKeys = new Set<string>();
+  /** Set by clear(): the parent is no longer read through */
+  private detached = false;
+
+  constructor(readonly parent: Map<string, any>) {
+    super();
+  }
+
+  get(key: string): any {
+    if (super.has(key)) return super.get(key);
+    if (this.hidesParentKey(key)) return undefined;
+    return this.parent.get(key);
+  }
+
+  has(key: string): boolean {
+    if (super.has(key)) return true;
+    if (this.hidesParentKey(key)) return false;
+    return this.parent.has(key);
+  }
+
+  set(key: string, value: any): this {
+    this.deletedKeys.delete(key);
+    return super.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    const existed = this.has(key);
+    super.delete(key);
+    if (!this.detached && this.parent.has(key)) {
+      this.deletedKeys.add(key);
+    }
+    return existed;
+  }
+
+  clear(): void {
+    super.clear();
+    this.deletedKeys.clear();
+    this.detached = true;
+  }
+
+  get size(): number {
+    return this.mergedEntries().length;
+  }
+
+  forEach(callback: (value: any, key: string, map: Map<string, any>) => void, thisArg?: any): void {
+    this.mergedEntries().forEach(([key, value]) => callback.call(thisArg, value, key, this));
+  }
+
+  entries(): IterableIterator<[string, any]> {
+    return this.mergedEntries()[Symbol.iterator]();
+  }
+
+  keys(): IterableIterator<string> {
+    return this.mergedEntries()
+      .map(([key]) => key)
+      [Symbol.iterator]();
+  }
+
+  values(): IterableIterator<any> {
+    return this.mergedEntries()
+      .map(([, value]) => value)
+      [Symbol.iterator]();
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, any]> {
+    return this.entries();
+  }
+
+  /**
+   * Whether the key was written in this child (not inherited)
+   */
+  hasOwn(key: string): boolean {
+    return super.has(key);
+  }
+
+  /**
+   * Gets the values written in this child (not inherited)
+   */
+  ownEntries(): [string, any][] {
+    const entries: [string, any][] = [];
+    super.forEach((value, key) => entries.push([key, value]));
+    return entries;
+  }
+
+  /**
+   * Gets the writes and deletions to copy into the parent
+   * A clear() stays local to the child: only the keys it deleted one by one are listed
+   *
+   * @param keys - Optional subset of keys to merge
+   */
+  getChanges(keys?: string[]): { written: [string, any][]; deleted: string[] } {
+    const include = (key: string) => !keys || keys.includes(key);
+
+    return {
+      written: this.ownEntries().filter(([key]) => include(key)),
+      deleted: Array.from(this.deletedKeys).filter(include),
+    };
+  }
+
+  private hidesParentKey(key: string): boolean {
+    return this.detached || this.deletedKeys.has(key);
+  }
+
+  private mergedEntries(): [string, any][] {
+    const merged = new Map<string, any>();
+
+    if (!this.detached) {
+      this.parent.forEach((value, key) => {
+        if (!this.deletedKeys.has(key)) merged.set(key, value);
+      });
+    }
+
+    super.forEach((value, key) => merged.set(key, value));
+    return Array.from(merged.entries());
+  }
+}
+
+/**
+ * Gets the store of the request a context belongs to, walking up child contexts
+ */
+export function getRootStore(store: Map<string, any>): Map<string, any> {
+  let root = store;
+  while (root instanceof ChildContextStore) {
+    root = root.parent;
+  }
+  return root;
+}
@@ -0,0 +1 @@
+export { ChildContextStore, getRootStore } from './child-context-store';
@@ -0,0 +1,20 @@
+export {
+  TRACE_KEY,
+  TraceContext,
+  TraceStore,
+  TraceParent,
+  generateTraceId,
+  generateSpanId,
+  parseTraceParent,
+  parseTraceState,
+  parseBaggage,
+  formatTraceParent,
+  formatBaggage,
+  serializeTraceContext,
+} from './trace-context';
+export {
+  resolveTracingOptions,
+  extractTraceContext,
+  applyTraceContext,
+  getOutboundTraceHeaders,
+} from './tracing';
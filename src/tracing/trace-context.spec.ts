@@ -0,0 +1,130 @@
+import {
+  TraceContext,
+  formatBaggage,
+  formatTraceParent,
+  generateSpanId,
+  generateTraceId,
+  parseBaggage,
+  parseTraceParent,
+  parseTraceState,
+  serializeTraceContext,
+} from './trace-context';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+describe('W3C trace context', () => {
+  describe('parseTraceParent', () => {
+    it('parses a version 00 header', () => {
+      expect(parseTraceParent(` 00-${TRACE_ID}-${PARENT_ID}-01 `)).toEqual({
+        version: '00',
+        traceId: TRACE_ID,
+        parentId: PARENT_ID,
+        flags: 1,
+      });
+    });
+
+    it('accepts trailing fields from future versions', () => {
+      expect(parseTraceParent(`cc-${TRACE_ID}-${PARENT_ID}-03-extra`)?.flags).toBe(3);
+    });
+
+    it.each([
+      ['a missing header', undefined],
+      ['an empty header', ''],
+      ['version ff', `ff-${TRACE_ID}-${PARENT_ID}-01`],
+      ['trailing fields in version 00', `00-${TRACE_ID}-${PARENT_ID}-01-extra`],
+      ['an all-zero trace ID', `00-${'0'.repeat(32)}-${PARENT_ID}-01`],
+      ['an all-zero parent ID', `00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+      ['upper-case hex', `00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01`],
+      ['a short trace ID', `00-${TRACE_ID.slice(1)}-${PARENT_ID}-01`],
+    ])('rejects %s', (_case, header) => {
+      expect(parseTraceParent(header)).toBeUndefined();
+    });
+  });
+
+  describe('parseTraceState', () => {
+    it('normalizes the members', () => {
+      expect(parseTraceState('congo=t61rcWkgMzE , rojo=00f067aa0ba902b7,,')).toBe(
+        'congo=t61rcWkgMzE,rojo=00f067aa0ba902b7',
+      );
+    });
+
+    it('accepts multi-tenant keys', () => {
+      expect(parseTraceState('tenant@vendor=value')).toBe('tenant@vendor=value');
+    });
+
+    it.each([
+      ['an empty header', ' , '],
+      ['a member without a value separator', 'congo'],
+      ['an upper-case key', 'Congo=1'],
+      ['a value containing an equals sign', 'congo=a=b'],
+      ['a duplicated key', 'congo=1,congo=2'],
+      ['more than 32 members', Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(',')],
+    ])('rejects %s', (_case, header) => {
+      expect(parseTraceState(header)).toBeUndefined();
+    });
+  });
+
+  describe('parseBaggage', () => {
+    it('decodes values and ignores member properties', () => {
+      expect(parseBaggage('userId=42, tenant=acme%20corp;ttl=60')).toEqual({
+        userId: '42',
+        tenant: 'acme corp',
+      });
+    });
+
+    it('skips invalid members', () => {
+      expect(parseBaggage('=empty,bad key=1,broken=%E0%A4%A,ok=1,novalue')).toEqual({ ok: '1' });
+    });
+
+    it('ignores headers over 8192 characters', () => {
+      expect(parseBaggage(`big=${'x'.repeat(8192)}`)).toEqual({});
+    });
+  });
+
+  describe('formatting', () => {
+    const trace: TraceContext = {
+      traceId: TRACE_ID,
+      spanId: PARENT_ID,
+      sampled: false,
+      traceState: 'congo=t61rcWkgMzE',
+      baggage: { tenant: 'acme corp', region: 'eu,west' },
+    };
+
+    it('formats the current span as the parent of the downstream span', () => {
+      expect(formatTraceParent(trace)).toBe(`00-${TRACE_ID}-${PARENT_ID}-00`);
+      expect(formatTraceParent({ ...trace, sampled: true })).toBe(`00-${TRACE_ID}-${PARENT_ID}-01`);
+    });
+
+    it('round-trips through the parsers', () => {
+      const headers = serializeTraceContext(trace);
+
+      expect(parseTraceParent(headers.traceparent)).toEqual({
+        version: '00',
+        traceId: TRACE_ID,
+        parentId: PARENT_ID,
+        flags: 0,
+      });
+      expect(parseTraceState(headers.tracestate)).toBe(trace.traceState);
+      expect(parseBaggage(headers.baggage)).toEqual(trace.baggage);
+    });
+
+    it('omits empty tracestate and baggage', () => {
+      expect(serializeTraceContext({ ...trace, traceState: undefined, baggage: {} })).toEqual({
+        traceparent: `00-${TRACE_ID}-${PARENT_ID}-00`,
+      });
+      expect(formatBaggage({})).toBe('');
+    });
+  });
+
+  it('generates IDs a downstream parser accepts', () => {
+    const header = formatTraceParent({
+      traceId: generateTraceId(),
+      spanId: generateSpanId(),
+      sampled: true,
+      baggage: {},
+    });
+
+    expect(parseTraceParent(header)).toBeDefined();
+  });
+});
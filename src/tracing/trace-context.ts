@@ -0,0 +1,191 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Context key the trace context is stored under
+ */
+export const TRACE_KEY = 'trace' as const;
+
+/**
+ * Parsed W3C Trace Context for the current request
+ */
+export interface TraceContext {
+  /** 32 hex characters identifying the whole trace */
+  traceId: string;
+  /** 16 hex characters identifying this service's span */
+  spanId: string;
+  /** The caller's span ID from the inbound `traceparent`, if any */
+  parentSpanId?: string;
+  /** Whether the trace is sampled (trace-flags bit 0) */
+  sampled: boolean;
+  /** The validated inbound `tracestate` header, forwarded as-is */
+  traceState?: string;
+  /** Baggage entries from the `baggage` header */
+  baggage: Record<string, string>;
+}
+
+/**
+ * Store shape contributed by the tracing feature
+ * Combine with your own store: `RequestContextService<MyStore & TraceStore>`
+ */
+export interface TraceStore {
+  [TRACE_KEY]: TraceContext;
+}
+
+/**
+ * Parsed `traceparent` header
+ */
+export interface TraceParent {
+  version: string;
+  traceId: string;
+  parentId: string;
+  flags: number;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const TRACESTATE_KEY_PATTERN =
+  /^(?:[a-z][a-z0-9_\-*/]{0,255}|[a-z0-9][a-z0-9_\-*/]{0,240}@[a-z][a-z0-9_\-*/]{0,13})$/;
+const TRACESTATE_VALUE_PATTERN = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+const BAGGAGE_KEY_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+const MAX_TRACESTATE_MEMBERS = 32;
+const MAX_BAGGAGE_MEMBERS = 180;
+const MAX_BAGGAGE_LENGTH = 8192;
+
+/**
+ * Generates a random 32-hex-character trace ID
+ */
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Generates a random 16-hex-character span ID
+ */
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Parses and validates a `traceparent` header
+ *
+ * @param header - The header value
+ * @returns The parsed header or undefined if invalid
+ */
+export function parseTraceParent(header: string | undefined): TraceParent | undefined {
+  if (!header) return undefined;
+
+  const match = TRACEPARENT_PATTERN.exec(header.trim());
+  if (!match) return undefined;
+
+  const [, version, traceId, parentId, flags, rest] = match;
+
+  // Version ff is forbidden; version 00 allows no trailing fields
+  if (version === 'ff' || (version === '00' && rest !== undefined)) return undefined;
+  if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) return undefined;
+
+  return { version, traceId, parentId, flags: parseInt(flags, 16) };
+}
+
+/**
+ * Validates a `tracestate` header
+ *
+ * @param header - The header value
+ * @returns The normalized header or undefined if invalid
+ */
+export function parseTraceState(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+
+  const members = header
+    .split(',')
+    .map((member) => member.trim())
+    .filter(Boolean);
+
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) return undefined;
+
+  const keys = new Set<string>();
+  for (const member of members) {
+    const separator = member.indexOf('=');
+    if (separator <= 0) return undefined;
+
+    const key = member.slice(0, separator);
+    const value = member.slice(separator + 1);
+    if (!TRACESTATE_KEY_PATTERN.test(key) || !TRACESTATE_VALUE_PATTERN.test(value)) {
+      return undefined;
+    }
+    if (keys.has(key)) return undefined;
+    keys.add(key);
+  }
+
+  return members.join(',');
+}
+
+/**
+ * Parses a `baggage` header
+ * Invalid members are skipped; properties after `;` are ignored
+ *
+ * @param header - The header value
+ * @returns The baggage entries
+ */
+export function parseBaggage(header: string | undefined): Record<string, string> {
+  const baggage: Record<string, string> = {};
+  if (!header || header.length > MAX_BAGGAGE_LENGTH) return baggage;
+
+  const members = header.split(',').slice(0, MAX_BAGGAGE_MEMBERS);
+  for (const member of members) {
+    const [entry] = member.split(';');
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+
+    const key = entry.slice(0, separator).trim();
+    const value = entry.slice(separator + 1).trim();
+    if (!BAGGAGE_KEY_PATTERN.test(key)) continue;
+
+    try {
+      baggage[key] = decodeURIComponent(value);
+    } catch {
+      // Skip values with malformed percent-encoding
+    }
+  }
+
+  return baggage;
+}
+
+/**
+ * Formats a `traceparent` header for an outbound call
+ * The current span becomes the parent of the downstream span
+ */
+export function formatTraceParent(trace: TraceContext): string {
+  return `00-${trace.traceId}-${trace.spanId}-${trace.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Formats a `baggage` header
+ */
+export function formatBaggage(baggage: Record<string, string>): string {
+  return Object.entries(baggage)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join(',');
+}
+
+/**
+ * Serializes a trace context into headers for an outbound call
+ *
+ * @param trace - The trace context
+ * @returns `traceparent` and, when present, `tracestate` and `baggage` headers
+ */
+export function serializeTraceContext(trace: TraceContext): Record<string, string> {
+  const headers: Record<string, string> = {
+    traceparent: formatTraceParent(trace),
+  };
+
+  if (trace.traceState) {
+    headers.tracestate = trace.traceState;
+  }
+
+  const baggage = formatBaggage(trace.baggage);
+  if (baggage) {
+    headers.baggage = baggage;
+  }
+
+  return headers;
+}
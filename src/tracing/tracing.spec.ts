@@ -0,0 +1,77 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { expressAdapter } from '../adapters';
+import { applyTraceContext, extractTraceContext, getOutboundTraceHeaders } from './tracing';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+describe('tracing', () => {
+  const request = (headers: Record<string, string>) => ({ headers });
+
+  describe('extractTraceContext', () => {
+    it('continues the trace of a valid traceparent with a new span', () => {
+      const trace = extractTraceContext(
+        expressAdapter,
+        request({
+          traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+          tracestate: 'congo=t61rcWkgMzE',
+          baggage: 'tenant=acme',
+        }),
+      );
+
+      expect(trace).toEqual({
+        traceId: TRACE_ID,
+        spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+        parentSpanId: PARENT_ID,
+        sampled: true,
+        traceState: 'congo=t61rcWkgMzE',
+        baggage: { tenant: 'acme' },
+      });
+      expect(trace?.spanId).not.toBe(PARENT_ID);
+    });
+
+    it('starts a new trace for an invalid traceparent and drops its tracestate', () => {
+      const trace = extractTraceContext(
+        expressAdapter,
+        request({ traceparent: 'garbage', tracestate: 'congo=t61rcWkgMzE' }),
+        { sampled: false },
+      );
+
+      expect(trace?.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(trace?.parentSpanId).toBeUndefined();
+      expect(trace?.traceState).toBeUndefined();
+      expect(trace?.sampled).toBe(false);
+    });
+
+    it('honors startNewTrace and baggage options', () => {
+      expect(
+        extractTraceContext(expressAdapter, request({}), { startNewTrace: false }),
+      ).toBeUndefined();
+      expect(
+        extractTraceContext(expressAdapter, request({ baggage: 'tenant=acme' }), { baggage: false })
+          ?.baggage,
+      ).toEqual({});
+    });
+  });
+
+  it('stores the trace and serializes it for outbound calls', () => {
+    const ctx = new RequestContextService();
+
+    const headers = ctx.run(() => {
+      const trace = applyTraceContext(
+        ctx,
+        expressAdapter,
+        request({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-00`, baggage: 'tenant=acme' }),
+        {},
+      );
+      return { trace, outbound: getOutboundTraceHeaders(ctx) };
+    });
+
+    expect(headers.outbound).toEqual({
+      traceparent: `00-${TRACE_ID}-${headers.trace!.spanId}-00`,
+      baggage: 'tenant=acme',
+    });
+    expect(getOutboundTraceHeaders(ctx)).toEqual({});
+  });
+});
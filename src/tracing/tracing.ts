@@ -0,0 +1,107 @@
+import { RequestContextService } from '../request-context.service';
+import { RequestAdapter } from '../adapters';
+import { TracingOptions } from '../interfaces';
+import {
+  TRACE_KEY,
+  TraceContext,
+  generateSpanId,
+  generateTraceId,
+  parseBaggage,
+  parseTraceParent,
+  parseTraceState,
+  serializeTraceContext,
+} from './trace-context';
+
+/**
+ * Normalizes the `tracing` module option
+ */
+export function resolveTracingOptions(
+  option: boolean | TracingOptions | undefined,
+): TracingOptions | undefined {
+  if (!option) return undefined;
+  return option === true ? {} : option;
+}
+
+/**
+ * Reads a single header value through a request adapter
+ */
+function readHeader(adapter: RequestAdapter, request: any, name: string): string | undefined {
+  const value = adapter.getHeader(request, name);
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+/**
+ * Builds the trace context for a request from its W3C headers
+ * A new span ID is always created for this service; a new trace is started
+ * when no valid `traceparent` is present (unless disabled)
+ *
+ * @param adapter - The adapter used to read headers
+ * @param request - The incoming request
+ * @param options - Tracing options
+ * @returns The trace context or undefined when no trace should be recorded
+ */
+export function extractTraceContext(
+  adapter: RequestAdapter,
+  request: any,
+  options: TracingOptions = {},
+): TraceContext | undefined {
+  const parent = parseTraceParent(readHeader(adapter, request, 'traceparent'));
+  const baggage =
+    options.baggage !== false ? parseBaggage(readHeader(adapter, request, 'baggage')) : {};
+
+  if (parent) {
+    return {
+      traceId: parent.traceId,
+      spanId: generateSpanId(),
+      parentSpanId: parent.parentId,
+      sampled: (parent.flags & 0x01) === 0x01,
+      // tracestate is only meaningful alongside a valid traceparent
+      traceState: parseTraceState(readHeader(adapter, request, 'tracestate')),
+      baggage,
+    };
+  }
+
+  if (options.startNewTrace === false) return undefined;
+
+  return {
+    traceId: generateTraceId(),
+    spanId: generateSpanId(),
+    sampled: options.sampled ?? true,
+    baggage,
+  };
+}
+
+/**
+ * Parses the trace headers of the current request and stores the result under `trace`
+ *
+ * @param contextService - The context service (must be inside an active context)
+ * @param adapter - The adapter used to read headers
+ * @param request - The incoming request
+ * @param options - Tracing options
+ * @returns The stored trace context, if any
+ */
+export function applyTraceContext(
+  contextService: RequestContextService,
+  adapter: RequestAdapter,
+  request: any,
+  options: TracingOptions,
+): TraceContext | undefined {
+  const trace = extractTraceContext(adapter, request, options);
+  if (trace) {
+    contextService.set(TRACE_KEY, trace);
+  }
+  return trace;
+}
+
+/**
+ * Serializes the current request's trace into headers for an outbound call
+ *
+ * @param contextService - The context service
+ * @returns Trace headers, or an empty object outside a traced context
+ */
+export function getOutboundTraceHeaders(
+  contextService: RequestContextService,
+): Record<string, string> {
+  const trace = contextService.get<TraceContext>(TRACE_KEY);
+  return trace ? serializeTraceContext(trace) : {};
+}
@@ -76,7 +76,7 @@ export type ContextStore<TStore extends Record<string, any> = Record<string, any
   /** Internal: The adapter instance */
   __adapter__?: any;
   /** Internal: The adapter type */
-  __adapter_type__?: 'express' | 'fastify' | 'auto';
+  __adapter_type__?: 'express' | 'fastify' | 'rpc' | 'ws' | 'auto';
 } & TStore;
 
 /**
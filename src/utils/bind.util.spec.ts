@@ -0,0 +1,81 @@
+import 'reflect-metadata';
+import { AsyncResource } from 'async_hooks';
+import { EventEmitter } from 'events';
+import { RequestContextService } from '../request-context.service';
+
+describe('binding callbacks to the context', () => {
+  let ctx: RequestContextService;
+
+  beforeEach(() => {
+    ctx = new RequestContextService();
+  });
+
+  const inTenant = <T>(tenantId: string, callback: () => T): T => ctx.run(callback, { tenantId });
+
+  it('bind() runs a function in the context it was bound in', () => {
+    const read = inTenant('acme', () => ctx.bind((suffix: string) => ctx.get('tenantId') + suffix));
+
+    expect(read('!')).toBe('acme!');
+    expect(inTenant('globex', () => read('?'))).toBe('acme?');
+  });
+
+  describe('bindEmitter()', () => {
+    it('runs each listener in the context it was added in', () => {
+      const emitter = ctx.bindEmitter(new EventEmitter());
+      const seen: string[] = [];
+
+      inTenant('acme', () => emitter.on('data', () => seen.push(ctx.get('tenantId'))));
+      inTenant('globex', () => emitter.once('data', () => seen.push(ctx.get('tenantId'))));
+      inTenant('initech', () => emitter.emit('data'));
+      emitter.emit('data');
+
+      expect(seen).toEqual(['acme', 'globex', 'acme']);
+    });
+
+    it('removes listeners by their original function', () => {
+      const emitter = ctx.bindEmitter(new EventEmitter());
+      const listener = jest.fn();
+      const onceListener = jest.fn();
+
+      inTenant('acme', () => {
+        emitter.on('data', listener);
+        emitter.once('data', onceListener);
+      });
+      expect(emitter.listeners('data')).toEqual([listener, onceListener]);
+
+      emitter.removeListener('data', listener);
+      emitter.off('data', onceListener);
+      emitter.emit('data');
+
+      expect(emitter.listenerCount('data')).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
+      expect(onceListener).not.toHaveBeenCalled();
+    });
+
+    it('patches an emitter only once', () => {
+      const emitter = new EventEmitter();
+
+      expect(ctx.bindEmitter(ctx.bindEmitter(emitter))).toBe(emitter);
+      const seen: string[] = [];
+      inTenant('acme', () => emitter.on('data', () => seen.push(ctx.get('tenantId'))));
+      emitter.emit('data');
+
+      expect(seen).toEqual(['acme']);
+    });
+  });
+
+  it('wrap() runs the callbacks of a resource in the wrapping context', () => {
+    const resource = new AsyncResource('Pool');
+    const untouched = new AsyncResource('Pool');
+
+    inTenant('acme', () => ctx.wrap(resource));
+    expect(ctx.wrap(untouched)).toBe(untouched);
+
+    const tenant = inTenant('globex', () =>
+      resource.runInAsyncScope((suffix: string) => ctx.get('tenantId') + suffix, null, '!'),
+    );
+
+    expect(tenant).toBe('acme!');
+    expect(untouched.runInAsyncScope(() => ctx.get('tenantId'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { AsyncResource } from 'async_hooks';
+import type { EventEmitter } from 'events';
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * Marks emitters whose listener methods are already bound
+ */
+const BOUND_EMITTER = Symbol('RequestContextBoundEmitter');
+
+/**
+ * Binds a listener to the current async context
+ * The original is kept on `.listener`, which Node's EventEmitter uses to match
+ * removeListener() calls and to unwrap listeners()
+ */
+function bindListener(listener: Listener): Listener {
+  const bound = AsyncResource.bind(listener) as Listener & { listener?: Listener };
+  bound.listener = listener;
+  return bound;
+}
+
+/**
+ * Patches an emitter so that every listener runs in the context that was active
+ * when the listener was added, whichever context later emits the event
+ *
+ * @param emitter - A Node.js EventEmitter
+ * @returns The same emitter
+ */
+export function bindEmitterListeners<E extends EventEmitter>(emitter: E): E {
+  const target = emitter as any;
+  if (target[BOUND_EMITTER]) return emitter;
+
+  const on = target.on;
+  const prependListener = target.prependListener;
+
+  const addBound = (add: (...args: any[]) => E) =>
+    function (this: E, event: string | symbol, listener: Listener): E {
+      return add.call(this, event, bindListener(listener));
+    };
+
+  // Once listeners are wrapped here rather than by the emitter so that
+  // removeListener(event, original) still finds them
+  const addOnceBound = (add: (...args: any[]) => E) =>
+    function (this: E, event: string | symbol, listener: Listener): E {
+      const bound = bindListener(listener);
+      let fired = false;
+
+      const onceWrapper = function (this: E, ...args: any[]) {
+        this.removeListener(event, onceWrapper);
+        if (fired) return;
+        fired = true;
+        return bound.apply(this, args);
+      } as Listener & { listener?: Listener };
+      onceWrapper.listener = listener;
+
+      return add.call(this, event, onceWrapper);
+    };
+
+  target.on = addBound(on);
+  target.addListener = target.on;
+  target.prependListener = addBound(prependListener);
+  target.once = addOnceBound(on);
+  target.prependOnceListener = addOnceBound(prependListener);
+  target[BOUND_EMITTER] = true;
+
+  return emitter;
+}
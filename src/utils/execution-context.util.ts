@@ -0,0 +1,131 @@
+import { ExecutionContext } from '@nestjs/common';
+import { AsyncResource } from 'async_hooks';
+import { loadOptionalPackage } from './load-package.util';
+import type { GqlExecutionContext } from '@nestjs/graphql';
+import type { GraphQLResolveInfo } from 'graphql';
+import { createSocketRequest } from '../adapters/socket.adapter';
+
+/**
+ * Details about the GraphQL operation a resolver belongs to
+ */
+export interface GraphQLOperationInfo {
+  /** The operation type ('query', 'mutation' or 'subscription') */
+  operationType: 'query' | 'mutation' | 'subscription';
+  /** The operation name, if the document names it */
+  operationName?: string;
+  /** The operation variables */
+  variables: Record<string, any>;
+}
+
+/**
+ * Creates a GqlExecutionContext, loading @nestjs/graphql lazily
+ * so the package stays an optional dependency
+ */
+export function createGqlExecutionContext(context: ExecutionContext): GqlExecutionContext {
+  const { GqlExecutionContext: GqlContext } = loadOptionalPackage(
+    '@nestjs/graphql',
+    'RequestContextModule',
+  );
+  return GqlContext.create(context);
+}
+
+/**
+ * Resolves the underlying request from a GraphQL context object
+ * Supports Apollo (req), Mercurius (reply.request) and graphql-ws (extra.request)
+ */
+export function getGraphQLRequest(gqlContext: any): any {
+  if (!gqlContext) return undefined;
+
+  return (
+    gqlContext.req ??
+    gqlContext.request ??
+    gqlContext.reply?.request ??
+    gqlContext.extra?.request
+  );
+}
+
+/**
+ * Gets operation details from a GraphQL execution context
+ */
+export function getGraphQLOperationInfo(context: ExecutionContext): GraphQLOperationInfo {
+  const info = createGqlExecutionContext(context).getInfo<GraphQLResolveInfo>();
+
+  return {
+    operationType: info.operation.operation,
+    operationName: info.operation.name?.value,
+    variables: info.variableValues ?? {},
+  };
+}
+
+/**
+ * Resolves the request object for HTTP, GraphQL and WebSocket execution contexts
+ * Used as a fallback when the context store has no request
+ */
+export function getRequestFromContext(context: ExecutionContext): any {
+  if (context.getType<string>() === 'graphql') {
+    return getGraphQLRequest(createGqlExecutionContext(context).getContext());
+  }
+
+  if (context.getType() === 'ws') {
+    return createSocketRequest(context);
+  }
+
+  return context.switchToHttp().getRequest();
+}
+
+/**
+ * Resolves the response object for HTTP and GraphQL execution contexts
+ * Supports Apollo (res) and Mercurius (reply)
+ */
+export function getResponseFromContext(context: ExecutionContext): any {
+  if (context.getType<string>() === 'graphql') {
+    const gqlContext = createGqlExecutionContext(context).getContext();
+    return gqlContext?.res ?? gqlContext?.reply;
+  }
+
+  if (context.getType() === 'http') {
+    return context.switchToHttp().getResponse();
+  }
+
+  return undefined;
+}
+
+/**
+ * Binds an async iterator to the current async context
+ * Every pull from the returned iterator runs inside the context that was
+ * active when it was bound, e.g. the per-operation context of a subscription
+ */
+export function bindAsyncIterator<T>(iterator: AsyncIterator<T>): AsyncIterableIterator<T> {
+  const resource = new AsyncResource('RequestContextAsyncIterator');
+
+  const bound: AsyncIterableIterator<T> = {
+    next: (...args: [] | [any]) =>
+      resource.runInAsyncScope(() => iterator.next(...args)),
+    [Symbol.asyncIterator]() {
+      return bound;
+    },
+  };
+
+  if (iterator.return) {
+    bound.return = (value?: any) =>
+      resource.runInAsyncScope(() => iterator.return!(value));
+  }
+
+  if (iterator.throw) {
+    bound.throw = (error?: any) =>
+      resource.runInAsyncScope(() => iterator.throw!(error));
+  }
+
+  return bound;
+}
+
+/**
+ * Checks if a value is an async iterator (e.g. a GraphQL subscription result)
+ */
+export function isAsyncIterator(value: any): value is AsyncIterator<any> {
+  return (
+    !!value &&
+    typeof value.next === 'function' &&
+    typeof value[Symbol.asyncIterator] === 'function'
+  );
+}
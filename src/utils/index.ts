@@ -0,0 +1,14 @@
+export {
+  GraphQLOperationInfo,
+  createGqlExecutionContext,
+  getGraphQLRequest,
+  getGraphQLOperationInfo,
+  getRequestFromContext,
+  getResponseFromContext,
+  bindAsyncIterator,
+  isAsyncIterator,
+} from './execution-context.util';
+export { copyMetadata } from './metadata.util';
+export { bindEmitterListeners } from './bind.util';
+export { getRawResponse, onResponseEnd } from './response.util';
+export { loadOptionalPackage } from './load-package.util';
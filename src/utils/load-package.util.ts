@@ -0,0 +1,26 @@
+import { createRequire } from 'module';
+
+/**
+ * `require` resolving from this package in both builds
+ * The ESM bundle gets `__filename` from tsup's shims, so no dynamic `require` is left in it
+ */
+const requirePackage = createRequire(__filename);
+
+/**
+ * Loads an optional peer dependency on first use
+ *
+ * @param packageName - The package to load
+ * @param context - The feature that needs it, used in the error message
+ * @returns The package's exports
+ * @throws Error if the package isn't installed
+ */
+export function loadOptionalPackage<T = any>(packageName: string, context: string): T {
+  try {
+    return requirePackage(packageName);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== 'MODULE_NOT_FOUND') throw error;
+    throw new Error(
+      `The "${packageName}" package is missing. Please, make sure to install it to take advantage of ${context}.`,
+    );
+  }
+}
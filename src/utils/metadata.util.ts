@@ -0,0 +1,10 @@
+/**
+ * Copies reflection metadata from one method to another
+ * Lets method decorators that wrap a function keep metadata set by
+ * other decorators (e.g. @Process, @Cron), whatever the decorator order
+ */
+export function copyMetadata(source: object, target: object): void {
+  Reflect.getMetadataKeys(source).forEach((key) => {
+    Reflect.defineMetadata(key, Reflect.getMetadata(key, source), target);
+  });
+}
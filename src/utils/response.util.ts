@@ -0,0 +1,47 @@
+import { AsyncResource } from 'async_hooks';
+
+/**
+ * Gets the Node.js response behind an Express response or a Fastify reply
+ *
+ * @param response - The response object passed to middleware, guards or interceptors
+ * @returns The underlying http.ServerResponse, if it emits events
+ */
+export function getRawResponse(response: any): any {
+  const raw = response?.raw ?? response;
+  return typeof raw?.once === 'function' ? raw : undefined;
+}
+
+/**
+ * Calls a listener once the response is done: when it has been flushed ('finish')
+ * or when the connection closed before that ('close'). The listener runs in the
+ * async context that was active when it was registered, right away if the response
+ * is already done.
+ *
+ * @param response - An Express response, a Fastify reply or a raw ServerResponse
+ * @param listener - Receives whether the response was aborted before finishing
+ * @returns false if the response doesn't emit events (nothing is registered)
+ */
+export function onResponseEnd(response: any, listener: (aborted: boolean) => void): boolean {
+  const raw = getRawResponse(response);
+  if (!raw) return false;
+
+  if (raw.writableFinished || raw.destroyed) {
+    listener(!raw.writableFinished);
+    return true;
+  }
+
+  let ended = false;
+  const end = AsyncResource.bind((aborted: boolean) => {
+    if (ended) return;
+    ended = true;
+    raw.removeListener('finish', onFinish);
+    raw.removeListener('close', onClose);
+    listener(aborted);
+  });
+  const onFinish = () => end(false);
+  const onClose = () => end(!raw.writableFinished);
+
+  raw.once('finish', onFinish);
+  raw.once('close', onClose);
+  return true;
+}
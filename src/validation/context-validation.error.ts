@@ -0,0 +1,14 @@
+/**
+ * Thrown when a context value does not satisfy the schema registered for its key
+ */
+export class ContextValidationError extends Error {
+  constructor(
+    /** The context key */
+    readonly key: string,
+    /** The validation issues */
+    readonly issues: string[],
+  ) {
+    super(`Invalid context value for "${key}": ${issues.join('; ')}`);
+    this.name = 'ContextValidationError';
+  }
+}
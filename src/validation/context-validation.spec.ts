@@ -0,0 +1,58 @@
+import 'reflect-metadata';
+import { RequestContextService } from '../request-context.service';
+import { ContextValidationError } from './context-validation.error';
+
+describe('context validation', () => {
+  let ctx: RequestContextService;
+  let loads: number;
+
+  beforeEach(() => {
+    loads = 0;
+    ctx = new RequestContextService({
+      computed: { tenantId: () => 'acme' },
+      validation: {
+        schemas: {
+          tenantId: { schema: (value) => typeof value === 'string', required: true },
+          user: { schema: (value) => typeof value === 'object', required: true },
+          page: (value) => typeof value === 'number' || 'must be a number',
+        },
+      },
+    });
+  });
+
+  const loadUser = () => {
+    loads++;
+    return { id: 42 };
+  };
+
+  it('rejects invalid values on set()', () => {
+    ctx.run(() => {
+      expect(() => ctx.set('page', '2')).toThrow(ContextValidationError);
+    });
+  });
+
+  it('validates the initial values given to run() when setup completes', () => {
+    ctx.run(
+      () => {
+        ctx.setLazy('user', loadUser);
+        expect(() => ctx.completeSetup()).toThrow('must be a number');
+      },
+      { page: '2' },
+    );
+  });
+
+  it('counts lazy and computed keys as set without resolving them', () => {
+    ctx.run(() => {
+      ctx.setLazy('user', loadUser);
+
+      expect(() => ctx.completeSetup()).not.toThrow();
+      expect(loads).toBe(0);
+    });
+  });
+
+  it('reports required keys that were never set', () => {
+    ctx.run(() => {
+      expect(() => ctx.completeSetup()).toThrow(ContextValidationError);
+    });
+  });
+});
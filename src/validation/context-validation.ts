@@ -0,0 +1,96 @@
+import { Logger } from '@nestjs/common';
+import {
+  ContextKeyValidation,
+  ContextValidationMode,
+  ContextValidationOptions,
+  ContextValidator,
+} from '../interfaces';
+import { ContextValidationError } from './context-validation.error';
+import { toContextValidator } from './context-validators';
+
+/**
+ * Store key holding the initial values of a context, which bypass `set()`
+ * Kept until setup completes, when those still in place are validated
+ */
+export const INITIAL_VALUES_KEY = '__initial_values__';
+
+interface RegisteredSchema {
+  validator: ContextValidator;
+  onInvalid: ContextValidationMode;
+  required: boolean;
+}
+
+function isKeyValidation(value: unknown): value is ContextKeyValidation {
+  return !!value && typeof value === 'object' && 'schema' in value;
+}
+
+/**
+ * Holds the per-key schemas of the module options and applies them
+ */
+export class ContextValidationRegistry {
+  private readonly logger = new Logger('RequestContext');
+  private readonly schemas = new Map<string, RegisteredSchema>();
+
+  constructor(options?: ContextValidationOptions) {
+    const defaultMode = options?.onInvalid ?? 'throw';
+
+    Object.entries(options?.schemas ?? {}).forEach(([key, entry]) => {
+      const config = isKeyValidation(entry) ? entry : { schema: entry };
+      this.schemas.set(key, {
+        validator: toContextValidator(config.schema),
+        onInvalid: config.onInvalid ?? defaultMode,
+        required: config.required ?? false,
+      });
+    });
+  }
+
+  /**
+   * Whether any schema is registered
+   */
+  get isEmpty(): boolean {
+    return this.schemas.size === 0;
+  }
+
+  /**
+   * Validates a value about to be stored under a key
+   * Keys without a schema are accepted as-is
+   *
+   * @throws ContextValidationError if the value is invalid and the key is set to throw
+   */
+  validateValue(key: string, value: unknown): void {
+    const schema = this.schemas.get(key);
+    if (!schema) return;
+
+    const result = schema.validator.validate(value);
+    if (!result.valid) {
+      this.report(schema, new ContextValidationError(key, result.issues));
+    }
+  }
+
+  /**
+   * Checks that required keys are present and validates the values that were not
+   * written through `set()`, which validated the others already
+   * Runs when `setup` has finished
+   *
+   * @param unvalidated - Values that have not been validated yet, by key
+   * @param isSet - Whether a key is set, lazy and computed values included
+   * @throws ContextValidationError for the first violation of a key set to throw
+   */
+  validateStore(unvalidated: ReadonlyMap<string, unknown>, isSet: (key: string) => boolean): void {
+    this.schemas.forEach((schema, key) => {
+      if (unvalidated.has(key)) {
+        this.validateValue(key, unvalidated.get(key));
+      } else if (schema.required && !isSet(key)) {
+        this.report(schema, new ContextValidationError(key, ['is required but was not set']));
+      }
+    });
+  }
+
+  private report(schema: RegisteredSchema, error: ContextValidationError): void {
+    if (schema.onInvalid === 'log') {
+      this.logger.warn(error.message);
+      return;
+    }
+    throw error;
+  }
+}
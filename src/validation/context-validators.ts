@@ -0,0 +1,132 @@
+import { loadOptionalPackage } from '../utils/load-package.util';
+import {
+  ContextPredicate,
+  ContextSchema,
+  ContextValidationResult,
+  ContextValidator,
+} from '../interfaces';
+
+const VALID: ContextValidationResult = { valid: true, issues: [] };
+
+/**
+ * Creates a validator from a predicate
+ *
+ * @param test - Returns true for valid values, or false / an issue message otherwise
+ * @param message - Issue reported when the predicate returns false
+ * @returns The validator
+ *
+ * @example
+ * ```typescript
+ * tenantId: predicateSchema((value) => typeof value === 'string', 'must be a string'),
+ * ```
+ */
+export function predicateSchema(
+  test: ContextPredicate,
+  message = 'failed validation',
+): ContextValidator {
+  return {
+    validate(value) {
+      const result = test(value);
+      if (result === true) return VALID;
+      return { valid: false, issues: [typeof result === 'string' ? result : message] };
+    },
+  };
+}
+
+/**
+ * Creates a validator from a zod schema (or anything with a zod-compatible `safeParse`)
+ *
+ * @param schema - The zod schema
+ * @returns The validator
+ */
+export function zodSchema(schema: { safeParse(value: unknown): any }): ContextValidator {
+  return {
+    validate(value) {
+      const result = schema.safeParse(value);
+      if (result?.success) return VALID;
+
+      const issues: any[] = result?.error?.issues ?? [];
+      return {
+        valid: false,
+        issues: issues.length
+          ? issues.map((issue) =>
+              issue.path?.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+            )
+          : ['failed validation'],
+      };
+    },
+  };
+}
+
+/**
+ * Flattens class-validator errors into `path: message` issues
+ */
+function flattenClassValidatorErrors(errors: any[], parentPath = ''): string[] {
+  return errors.flatMap((error) => {
+    const path = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = Object.values<string>(error.constraints ?? {}).map((message) => `${path}: ${message}`);
+    return [...own, ...flattenClassValidatorErrors(error.children ?? [], path)];
+  });
+}
+
+/**
+ * Creates a validator that checks values against a class decorated with class-validator
+ * Plain objects are converted with class-transformer's plainToInstance first
+ * Requires `class-validator` and `class-transformer`
+ *
+ * @param type - The decorated class
+ * @param options - Options passed to class-validator's validateSync
+ * @returns The validator
+ *
+ * @example
+ * ```typescript
+ * settings: classValidatorSchema(TenantSettings, { whitelist: true }),
+ * ```
+ */
+export function classValidatorSchema(
+  type: new (...args: any[]) => object,
+  options?: Record<string, any>,
+): ContextValidator {
+  let packages: { validateSync: Function; plainToInstance: Function } | undefined;
+
+  const load = () => {
+    if (!packages) {
+      const { validateSync } = loadOptionalPackage('class-validator', 'ContextValidation');
+      const { plainToInstance } = loadOptionalPackage('class-transformer', 'ContextValidation');
+      packages = { validateSync, plainToInstance };
+    }
+    return packages;
+  };
+
+  return {
+    validate(value) {
+      if (value === null || typeof value !== 'object') {
+        return { valid: false, issues: [`expected an instance of ${type.name}`] };
+      }
+
+      const { validateSync, plainToInstance } = load();
+      const instance = value instanceof type ? value : plainToInstance(type, value);
+      const errors = validateSync(instance, options);
+
+      return errors.length
+        ? { valid: false, issues: flattenClassValidatorErrors(errors) }
+        : VALID;
+    },
+  };
+}
+
+/**
+ * Normalizes any accepted schema shape to a validator
+ */
+export function toContextValidator(schema: ContextSchema): ContextValidator {
+  if (typeof schema === 'function') {
+    return predicateSchema(schema);
+  }
+  if (typeof (schema as ContextValidator).validate === 'function') {
+    return schema as ContextValidator;
+  }
+  if (typeof (schema as any).safeParse === 'function') {
+    return zodSchema(schema as { safeParse(value: unknown): any });
+  }
+  throw new Error('Unsupported context schema: expected a validator, a zod schema or a predicate.');
+}
@@ -0,0 +1,8 @@
+export { ContextValidationError } from './context-validation.error';
+export {
+  predicateSchema,
+  zodSchema,
+  classValidatorSchema,
+  toContextValidator,
+} from './context-validators';
+export { ContextValidationRegistry, INITIAL_VALUES_KEY } from './context-validation';
@@ -0,0 +1,78 @@
+import { fork, ChildProcess, ForkOptions } from 'child_process';
+import { RequestContextService } from '../request-context.service';
+import type { SnapshotCaptureOptions } from '../interfaces';
+import { getWorkerContextService } from './worker-context';
+
+/**
+ * Environment variable that carries the parent's context snapshot into a forked process
+ */
+export const CONTEXT_ENV_VAR = 'NEST_REQ_CTX_SNAPSHOT';
+
+/**
+ * Options for forkWithContext
+ */
+export interface ContextForkOptions extends ForkOptions {
+  /**
+   * Context keys to carry into the child process (allowlist)
+   */
+  contextKeys?: SnapshotCaptureOptions['keys'];
+}
+
+/**
+ * Forks a child process that starts with the current context
+ * The snapshot travels in the NEST_REQ_CTX_SNAPSHOT environment variable;
+ * the child enters it with runWithProcessContext(). Later messages can carry
+ * context with postWithContext().
+ *
+ * @param modulePath - The module to run in the child
+ * @param args - Arguments for the child
+ * @param options - Fork options
+ * @returns The child process
+ *
+ * @example
+ * ```typescript
+ * const child = forkWithContext('./dist/export.job.js', [reportId], { contextKeys: ['tenantId'] });
+ * ```
+ */
+export function forkWithContext(
+  modulePath: string,
+  args: readonly string[] = [],
+  options: ContextForkOptions = {},
+): ChildProcess {
+  const { contextKeys, ...forkOptions } = options;
+  const snapshot = RequestContextService.getInstance().snapshot({ keys: contextKeys });
+
+  return fork(modulePath, args, {
+    ...forkOptions,
+    env: {
+      ...(forkOptions.env ?? process.env),
+      [CONTEXT_ENV_VAR]: JSON.stringify(snapshot),
+    },
+  });
+}
+
+/**
+ * Runs a handler inside the context passed down by forkWithContext()
+ * Runs in an empty context when the process was not started with one
+ *
+ * @param handler - The child's main function
+ * @param contextService - Optional service instance; see getWorkerContextService()
+ * @returns The handler's return value
+ *
+ * @example
+ * ```typescript
+ * // export.job.ts
+ * runWithProcessContext(() => exportReport(process.argv[2]));
+ * ```
+ */
+export function runWithProcessContext<R>(
+  handler: () => R,
+  contextService: RequestContextService = getWorkerContextService(),
+): R {
+  const serialized = process.env[CONTEXT_ENV_VAR];
+  if (!serialized) {
+    return contextService.run(handler);
+  }
+
+  return contextService.restore(serialized, handler);
+}
@@ -0,0 +1,21 @@
+export {
+  WORKER_CONTEXT_KEY,
+  ContextMessage,
+  MessageTarget,
+  MessageSource,
+  MessageContextOptions,
+  isContextMessage,
+  withWorkerContext,
+  postWithContext,
+  getWorkerContextService,
+  runWithWorkerContext,
+  contextTask,
+  onMessageWithContext,
+} from './worker-context';
+export { ContextWorkerOptions, createContextWorker } from './worker-threads';
+export {
+  CONTEXT_ENV_VAR,
+  ContextForkOptions,
+  forkWithContext,
+  runWithProcessContext,
+} from './child-process';
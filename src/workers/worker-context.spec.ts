@@ -0,0 +1,68 @@
+import 'reflect-metadata';
+import { EventEmitter } from 'events';
+import { RequestContextService } from '../request-context.service';
+import { onMessageWithContext, withWorkerContext } from './worker-context';
+
+describe('onMessageWithContext', () => {
+  let ctx: RequestContextService;
+  let port: EventEmitter;
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    ctx = new RequestContextService();
+    ctx.onModuleInit();
+    port = new EventEmitter();
+  });
+
+  const send = (data: object) =>
+    port.emit(
+      'message',
+      ctx.run(() => withWorkerContext(data), { tenantId: 'acme' }),
+    );
+
+  it('handles each message inside the context it carries', () => {
+    const seen: unknown[] = [];
+    onMessageWithContext(port, (data: { jobId: string }) => {
+      seen.push({ jobId: data.jobId, tenantId: ctx.get('tenantId') });
+    });
+
+    send({ jobId: 'j-1' });
+
+    expect(seen).toEqual([{ jobId: 'j-1', tenantId: 'acme' }]);
+  });
+
+  it('reports thrown errors and rejections to onError', async () => {
+    const onError = jest.fn();
+    onMessageWithContext(
+      port,
+      (data: { fail: 'sync' | 'async' }) => {
+        if (data.fail === 'sync') throw new Error('sync failure');
+        return Promise.reject(new Error(`async failure in ${ctx.get('tenantId')}`));
+      },
+      { onError },
+    );
+
+    send({ fail: 'sync' });
+    send({ fail: 'async' });
+    await settle();
+
+    expect(onError.mock.calls.map(([error]) => error.message)).toEqual([
+      'sync failure',
+      'async failure in acme',
+    ]);
+  });
+
+  it("emits 'error' on the source without onError", async () => {
+    const errors: Error[] = [];
+    port.on('error', (error) => errors.push(error));
+    onMessageWithContext(port, async () => {
+      throw new Error('down');
+    });
+
+    send({});
+    await settle();
+
+    expect(errors.map((error) => error.message)).toEqual(['down']);
+  });
+});
@@ -0,0 +1,216 @@
+import { RequestContextService } from '../request-context.service';
+import { ContextSnapshot } from '../snapshot';
+import type { RequestContextModuleOptions, SnapshotCaptureOptions } from '../interfaces';
+
+/**
+ * Property of a context message that holds the snapshot
+ */
+export const WORKER_CONTEXT_KEY = '__requestContext__';
+
+/**
+ * A payload wrapped together with the sender's context snapshot
+ */
+export interface ContextMessage<T = any> {
+  [WORKER_CONTEXT_KEY]: ContextSnapshot;
+  data: T;
+}
+
+/**
+ * Anything that can send messages to a worker or process
+ * (Worker, MessagePort, parentPort, ChildProcess, process)
+ */
+export interface MessageTarget {
+  postMessage?(message: any, transferList?: readonly any[]): void;
+  send?(message: any, ...args: any[]): boolean;
+}
+
+/**
+ * Anything that emits 'message' events (parentPort, MessagePort, Worker, process, ChildProcess)
+ */
+export interface MessageSource {
+  on(event: 'message', listener: (message: any) => void): any;
+  emit?(event: 'error', error: unknown): boolean;
+}
+
+/**
+ * Options for onMessageWithContext
+ */
+export interface MessageContextOptions {
+  /**
+   * Called when a handler throws or the promise it returns rejects
+   * Defaults to emitting 'error' on the source, which throws if it has no 'error' listener
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Checks if a value is a context message
+ */
+export function isContextMessage<T = any>(value: unknown): value is ContextMessage<T> {
+  return !!value && typeof value === 'object' && WORKER_CONTEXT_KEY in value;
+}
+
+/**
+ * Wraps a payload with a snapshot of the current context
+ * Use for workerData, postMessage/send payloads and Piscina tasks
+ *
+ * @param data - The payload
+ * @param options - Optional allowlist of keys
+ * @param contextService - Optional service instance; the global instance is used otherwise
+ * @returns The wrapped payload (with an empty snapshot outside a context)
+ *
+ * @example
+ * ```typescript
+ * const result = await this.pool.run(withWorkerContext({ reportId }));
+ * ```
+ */
+export function withWorkerContext<T>(
+  data: T,
+  options: SnapshotCaptureOptions = {},
+  contextService?: RequestContextService,
+): ContextMessage<T> {
+  const service = contextService ?? RequestContextService.getInstance();
+
+  return {
+    [WORKER_CONTEXT_KEY]: service.snapshot(options),
+    data,
+  };
+}
+
+/**
+ * Sends a payload together with the current context
+ * Uses `postMessage` for worker threads and ports, `send` for child processes
+ *
+ * @param target - The worker, port or child process
+ * @param data - The payload
+ * @param options - Optional allowlist of keys
+ */
+export function postWithContext<T>(
+  target: MessageTarget,
+  data: T,
+  options: SnapshotCaptureOptions = {},
+): void {
+  const message = withWorkerContext(data, options);
+
+  if (typeof target.postMessage === 'function') {
+    target.postMessage(message);
+  } else if (typeof target.send === 'function') {
+    target.send(message);
+  } else {
+    throw new Error('Message target has neither postMessage() nor send().');
+  }
+}
+
+/**
+ * Gets the context service used inside a worker or child process
+ * Returns the registered instance, or creates and registers a standalone one so that
+ * RequestContextService.getInstance() and the decorators work without a Nest application
+ *
+ * @param options - Module options for the standalone service (e.g. snapshot serializers)
+ * @returns The context service
+ */
+export function getWorkerContextService(
+  options?: RequestContextModuleOptions,
+): RequestContextService {
+  if (RequestContextService.hasInstance()) {
+    return RequestContextService.getInstance();
+  }
+
+  const service = new RequestContextService(options);
+  service.onModuleInit();
+  return service;
+}
+
+/**
+ * Runs a handler inside the context carried by a message
+ * Messages without a context run in an empty context
+ *
+ * @param message - A context message (or a plain payload)
+ * @param handler - Receives the unwrapped payload
+ * @param contextService - Optional service instance; see getWorkerContextService()
+ * @returns The handler's return value
+ *
+ * @example
+ * ```typescript
+ * // worker.ts
+ * import { workerData } from 'worker_threads';
+ *
+ * runWithWorkerContext(workerData, (data) => buildReport(data.reportId));
+ * ```
+ */
+export function runWithWorkerContext<T, R>(
+  message: ContextMessage<T> | T,
+  handler: (data: T) => R,
+  contextService: RequestContextService = getWorkerContextService(),
+): R {
+  if (!isContextMessage<T>(message)) {
+    return contextService.run(() => handler(message as T));
+  }
+
+  return contextService.restore(message[WORKER_CONTEXT_KEY], () => handler(message.data));
+}
+
+/**
+ * Wraps a worker task function so that every call runs in the caller's context
+ * Pairs with withWorkerContext() on the main thread (e.g. for Piscina)
+ *
+ * @param handler - The task function
+ * @returns A task function that accepts context messages
+ *
+ * @example
+ * ```typescript
+ * // report.worker.ts (Piscina)
+ * export default contextTask(async ({ reportId }) => {
+ *   const tenantId = RequestContextService.getInstance().get('tenantId');
+ *   return render(reportId, tenantId);
+ * });
+ * ```
+ */
+export function contextTask<T, R>(handler: (data: T) => R): (message: ContextMessage<T> | T) => R {
+  return (message) => runWithWorkerContext(message, handler);
+}
+
+/**
+ * Listens for messages and handles each one inside the context it carries
+ * Errors thrown by the handler, or rejections of the promise it returns, go to `onError`
+ *
+ * @param source - parentPort, a MessagePort, a Worker, process or a ChildProcess
+ * @param handler - Receives the unwrapped payload
+ * @param options - Optional error handler
+ *
+ * @example
+ * ```typescript
+ * onMessageWithContext(parentPort!, (job) => process(job), {
+ *   onError: (error) => parentPort!.postMessage({ error: String(error) }),
+ * });
+ * ```
+ */
+export function onMessageWithContext<T>(
+  source: MessageSource,
+  handler: (data: T) => unknown,
+  options: MessageContextOptions = {},
+): void {
+  const reportError = (error: unknown) => {
+    if (options.onError) {
+      options.onError(error);
+    } else if (typeof source.emit === 'function') {
+      source.emit('error', error);
+    } else {
+      throw error;
+    }
+  };
+
+  source.on('message', (message: ContextMessage<T> | T) => {
+    let result: unknown;
+    try {
+      result = runWithWorkerContext(message, handler);
+    } catch (error) {
+      reportError(error);
+      return;
+    }
+
+    if (result instanceof Promise) {
+      result.catch(reportError);
+    }
+  });
+}
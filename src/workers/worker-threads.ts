@@ -0,0 +1,38 @@
+import { Worker, WorkerOptions } from 'worker_threads';
+import type { SnapshotCaptureOptions } from '../interfaces';
+import { withWorkerContext } from './worker-context';
+
+/**
+ * Options for createContextWorker
+ */
+export interface ContextWorkerOptions extends WorkerOptions {
+  /**
+   * Context keys to carry into the worker (allowlist)
+   */
+  contextKeys?: SnapshotCaptureOptions['keys'];
+}
+
+/**
+ * Creates a worker thread whose workerData carries the current context
+ * Inside the worker, run the entry point with `runWithWorkerContext(workerData, ...)`
+ *
+ * @param filename - The worker script
+ * @param options - Worker options; `workerData` is wrapped with the context
+ * @returns The worker
+ *
+ * @example
+ * ```typescript
+ * const worker = createContextWorker('./resize.worker.js', { workerData: { imageId } });
+ * ```
+ */
+export function createContextWorker(
+  filename: string | URL,
+  options: ContextWorkerOptions = {},
+): Worker {
+  const { contextKeys, workerData, ...workerOptions } = options;
+
+  return new Worker(filename, {
+    ...workerOptions,
+    workerData: withWorkerContext(workerData, { keys: contextKeys }),
+  });
+}
@@ -0,0 +1,57 @@
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+
+const root = join(__dirname, '..');
+const entry = pathToFileURL(join(root, 'dist/index.mjs')).href;
+
+/**
+ * Runs an ES module snippet against the built bundle and returns its output
+ */
+function runModule(source: string): string {
+  return execFileSync(process.execPath, ['--input-type=module', '-e', source], {
+    cwd: root,
+    encoding: 'utf8',
+  }).trim();
+}
+
+describe('ESM bundle', () => {
+  beforeAll(() => {
+    execFileSync('npx', ['tsup', '--silent'], { cwd: root, stdio: 'pipe' });
+  }, 300_000);
+
+  it('imports without the optional packages being used', () => {
+    const output = runModule(`
+      const lib = await import('${entry}');
+      console.log(typeof lib.RequestContextModule, typeof lib.RequestContextService);
+    `);
+
+    expect(output).toBe('function function');
+  });
+
+  it('loads installed optional packages on demand', () => {
+    const output = runModule(`
+      import 'reflect-metadata';
+      const { RequestContextService, OpenTelemetryBridge } = await import('${entry}');
+      const bridge = new OpenTelemetryBridge(new RequestContextService(), { openTelemetry: {} });
+      console.log(typeof bridge.createBaggageContext());
+    `);
+
+    expect(output).toBe('object');
+  });
+
+  it('reports missing optional packages by name', () => {
+    const output = runModule(`
+      import 'reflect-metadata';
+      const { RequestContextService, createDataLoader } = await import('${entry}');
+      new RequestContextService().onModuleInit();
+      try {
+        createDataLoader(async (keys) => keys)();
+      } catch (error) {
+        console.log(error.message);
+      }
+    `);
+
+    expect(output).toContain('The "dataloader" package is missing');
+  });
+});
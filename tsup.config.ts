@@ -9,6 +9,7 @@ export default defineConfig({
     dts: { entry: 'src/index.ts' },
     sourcemap: true,
     clean: true,
+    shims: true,
     treeshake: true,
     external: [
         '@nestjs/common',
@@ -19,6 +20,14 @@ export default defineConfig({
         'fastify',
         '@nestjs/platform-express',
         '@nestjs/platform-fastify',
+        '@nestjs/graphql',
+        'graphql',
+        '@opentelemetry/api',
+        '@nestjs/event-emitter',
+        '@nestjs/cqrs',
+        'class-validator',
+        'class-transformer',
+        'dataloader',
         'inquirer',
     ],
     target: 'es2021',